@@ -0,0 +1,146 @@
+import { ChannelError } from '../utils/errors.js';
+import { ChannelMessage, ChannelType, NotificationSeverity } from '../types/index.js';
+
+/**
+ * Time allowed for a channel request when none is configured
+ */
+export const DEFAULT_CHANNEL_TIMEOUT_MS = 5000;
+
+/**
+ * Longest timeout a channel may be configured with, well below Claude Code's hook timeout
+ */
+export const MAX_CHANNEL_TIMEOUT_MS = 30000;
+
+/**
+ * Emoji leading chat messages, by severity
+ */
+export const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  [NotificationSeverity.NORMAL]: '🔔',
+  [NotificationSeverity.ERROR]: '🚨',
+};
+
+/**
+ * HTTP request sent by a channel
+ */
+export interface ChannelRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Hide the path and query of a URL, which often contain tokens
+ * @param url - URL to display
+ * @returns URL reduced to its origin, e.g. 'https://hooks.example.com/…'
+ */
+export function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname === '/' && !parsed.search ? parsed.origin : `${parsed.origin}/…`;
+  } catch {
+    return '(invalid URL)';
+  }
+}
+
+/**
+ * Shorten text to a service's length limit
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length
+ * @returns Text, ending with '…' if it was shortened
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Format text as a Markdown block quote
+ * @param text - Text to quote, possibly spanning several lines
+ * @returns Every line prefixed with '> '
+ */
+export function quoteLines(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Describe why a request could not be completed
+ * @param error - Error thrown by fetch
+ * @param timeoutMs - Timeout the request was sent with
+ * @returns Reason such as 'no response within 5000ms' or 'connect ECONNREFUSED 127.0.0.1:80'
+ * @private
+ */
+function describeRequestError(error: unknown, timeoutMs: number): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+
+  if (error.name === 'TimeoutError') {
+    return `no response within ${timeoutMs}ms`;
+  }
+
+  // fetch only says 'fetch failed'; the network error is its cause
+  return error.cause instanceof Error ? error.cause.message : error.message;
+}
+
+/**
+ * Abstract base class for remote delivery channels
+ */
+export abstract class NotificationChannel {
+  /**
+   * Channel type
+   */
+  abstract readonly type: ChannelType | string;
+
+  /**
+   * Describe the channel for display without revealing secrets
+   * @returns Text such as 'Webhook (https://example.com/hook)'
+   */
+  abstract describe(): string;
+
+  /**
+   * Build the HTTP request that delivers a notification
+   * @param message - Notification to deliver
+   * @returns Request URL, headers and body
+   */
+  abstract buildRequest(message: ChannelMessage): ChannelRequest;
+
+  /**
+   * Time allowed for a request before it is abandoned
+   * @returns Timeout in milliseconds
+   */
+  getTimeout(): number {
+    return DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  /**
+   * Deliver a notification
+   * @param message - Notification to deliver
+   * @throws ChannelError if the request fails, times out or is rejected
+   */
+  async send(message: ChannelMessage): Promise<void> {
+    const request = this.buildRequest(message);
+    const timeoutMs = this.getTimeout();
+
+    let response: Response;
+    try {
+      // The timeout covers the whole exchange, so an unresponsive server cannot hold up the hook
+      response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: AbortSignal.timeout(timeoutMs),
+        redirect: 'error',
+      });
+    } catch (error) {
+      throw new ChannelError(this.describe(), describeRequestError(error, timeoutMs));
+    }
+
+    // Only the status matters; release the connection instead of reading the body
+    await response.body?.cancel().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new ChannelError(this.describe(), `server responded with ${response.status} ${response.statusText}`.trim(), {
+        status: response.status,
+      });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { NotificationChannel, ChannelRequest, DEFAULT_CHANNEL_TIMEOUT_MS, SEVERITY_EMOJI, maskUrl, quoteLines, truncate } from './base.js';
+import { ChannelMessage, ChannelType, ChatChannelConfig, NotificationSeverity } from '../types/index.js';
+
+/**
+ * Maximum length of an embed title
+ */
+const TITLE_MAX_LENGTH = 256;
+
+/**
+ * Maximum length of an embed description
+ */
+const DESCRIPTION_MAX_LENGTH = 4096;
+
+/**
+ * Maximum length of an embed field value
+ */
+const FIELD_MAX_LENGTH = 1024;
+
+/**
+ * Embed accent colors, by severity
+ */
+const SEVERITY_COLORS: Record<NotificationSeverity, number> = {
+  [NotificationSeverity.NORMAL]: 0x5865f2,
+  [NotificationSeverity.ERROR]: 0xed4245,
+};
+
+/**
+ * Build a Discord embed message for a notification
+ * @param message - Notification to format
+ * @returns Payload for a Discord webhook
+ */
+export function buildDiscordPayload(message: ChannelMessage): Record<string, unknown> {
+  const fields = [
+    { name: 'Project', value: message.project, inline: true },
+    { name: 'Event', value: message.event, inline: true },
+  ];
+
+  if (message.duration) {
+    fields.push({ name: 'Duration', value: message.duration, inline: true });
+  }
+  if (message.session) {
+    fields.push({ name: 'Session', value: message.session, inline: true });
+  }
+
+  const description = message.excerpt ? `${message.message}\n\n${quoteLines(message.excerpt)}` : message.message;
+
+  return {
+    // Text from Claude must never ping anyone in the channel
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: truncate(`${SEVERITY_EMOJI[message.severity]} ${message.title}`, TITLE_MAX_LENGTH),
+        description: truncate(description, DESCRIPTION_MAX_LENGTH),
+        color: SEVERITY_COLORS[message.severity],
+        fields: fields.map(field => ({ ...field, value: truncate(field.value || '-', FIELD_MAX_LENGTH) })),
+        timestamp: message.timestamp,
+      },
+    ],
+  };
+}
+
+/**
+ * Channel posting notifications to a Discord webhook
+ */
+export class DiscordChannel extends NotificationChannel {
+  override readonly type = ChannelType.DISCORD;
+  private readonly config: ChatChannelConfig;
+
+  constructor(config: ChatChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  override describe(): string {
+    return `Discord (${maskUrl(this.config.url)})`;
+  }
+
+  override getTimeout(): number {
+    return this.config.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  override buildRequest(message: ChannelMessage): ChannelRequest {
+    return {
+      url: this.config.url,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildDiscordPayload(message)),
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import path from 'path';
+import { NotificationChannel, MAX_CHANNEL_TIMEOUT_MS } from './base.js';
+import { WebhookChannel, SIGNATURE_HEADER } from './webhook.js';
+import { SlackChannel } from './slack.js';
+import { DiscordChannel } from './discord.js';
+import { NtfyChannel, GotifyChannel, parseNtfyTopicUrl } from './push.js';
+import {
+  ChannelConfig,
+  ChannelMessage,
+  ChannelType,
+  ChatChannelConfig,
+  NotificationSeverity,
+  PushChannelConfig,
+  PushPriority,
+  ValidationResult,
+  WebhookChannelConfig,
+} from '../types/index.js';
+
+export { NotificationChannel } from './base.js';
+
+/**
+ * Headers the channel sets itself, which custom headers may not replace
+ */
+const RESERVED_HEADERS = ['content-type', 'content-length', 'host', SIGNATURE_HEADER.toLowerCase()];
+
+/**
+ * Matches a valid HTTP header name
+ */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Fields any channel entry may contain, for validating untrusted configuration
+ */
+type ChannelFields = Omit<WebhookChannelConfig, 'type'> & Omit<PushChannelConfig, 'type'> & { type: ChannelType };
+
+/**
+ * Matches an ntfy tag, which may not contain commas
+ */
+const TAG_PATTERN = /^[^,\s][^,]*$/;
+
+/**
+ * Create the channel for a configuration entry
+ * @param config - Channel configuration
+ * @returns Channel instance
+ */
+export function createChannel(config: ChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case ChannelType.WEBHOOK:
+      return new WebhookChannel(config);
+    case ChannelType.SLACK:
+      return new SlackChannel(config);
+    case ChannelType.DISCORD:
+      return new DiscordChannel(config);
+    case ChannelType.NTFY:
+      return new NtfyChannel(config);
+    case ChannelType.GOTIFY:
+      return new GotifyChannel(config);
+  }
+}
+
+/**
+ * Check whether a channel sends push notifications to phones
+ * @param config - Channel configuration
+ * @returns True for ntfy and Gotify channels
+ */
+export function isPushChannel(config: ChannelConfig): config is PushChannelConfig {
+  return config.type === ChannelType.NTFY || config.type === ChannelType.GOTIFY;
+}
+
+/**
+ * Build the message sent by the test action
+ * @param cwd - Directory the test is run from
+ * @param now - Time of the test
+ * @returns Message for the 'Test' event
+ */
+export function createTestChannelMessage(cwd: string = process.cwd(), now: Date = new Date()): ChannelMessage {
+  const project = path.basename(cwd);
+
+  return {
+    event: 'Test',
+    action: 'Test',
+    project,
+    cwd,
+    session: null,
+    title: `Claude Code - ${project}`,
+    message: 'Test notification from Claude Code Task Notifier. This channel is working.',
+    durationMs: null,
+    duration: null,
+    excerpt: null,
+    severity: NotificationSeverity.NORMAL,
+    timestamp: now.toISOString(),
+  };
+}
+
+/**
+ * Check whether a channel posts formatted messages to a chat service
+ * @param config - Channel configuration
+ * @returns True for Slack and Discord channels
+ */
+export function isChatChannel(config: ChannelConfig): config is ChatChannelConfig {
+  return config.type === ChannelType.SLACK || config.type === ChannelType.DISCORD;
+}
+
+/**
+ * Deliver a notification to every configured channel at once
+ * @param configs - Configured channels
+ * @param message - Notification to deliver
+ * @returns Error messages of the channels that failed (empty if all succeeded)
+ */
+export async function deliverToChannels(configs: ChannelConfig[], message: ChannelMessage): Promise<string[]> {
+  const results = await Promise.allSettled(configs.map(config => createChannel(config).send(message)));
+
+  return results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .map(result => result.reason instanceof Error ? result.reason.message : String(result.reason));
+}
+
+/**
+ * Check whether a URL can receive channel requests
+ * @param url - URL to check
+ * @returns Error message, or null if the URL is valid
+ */
+export function validateChannelUrl(url: unknown): string | null {
+  if (typeof url !== 'string') {
+    return 'url must be an http(s) URL';
+  }
+
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? null : 'url must be an http(s) URL';
+  } catch {
+    return 'url must be an http(s) URL';
+  }
+}
+
+/**
+ * Check custom headers of a webhook
+ * @param headers - Headers to check
+ * @returns Error messages (empty if the headers are valid)
+ */
+export function validateHeaders(headers: unknown): string[] {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return ['headers must be an object of header names and values'];
+  }
+
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      errors.push(`'${name}' is not a valid header name`);
+    } else if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      errors.push(`header '${name}' is set by the notifier`);
+    }
+
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      errors.push(`header '${name}' must be a single line of text`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate channel configurations
+ * @param channels - Value to validate
+ * @returns Validation result with isValid and errors
+ */
+export function validateChannels(channels: unknown): ValidationResult {
+  if (!Array.isArray(channels)) {
+    return { isValid: false, errors: ['channels must be an array'] };
+  }
+
+  const errors: string[] = [];
+
+  channels.forEach((channel: Partial<ChannelFields>, index) => {
+    const prefix = `channel ${index + 1}`;
+
+    if (!channel || typeof channel !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+
+    if (!Object.values(ChannelType).includes(channel.type as ChannelType)) {
+      errors.push(`${prefix} type must be one of: ${Object.values(ChannelType).join(', ')}`);
+      return;
+    }
+
+    const urlError = validateChannelUrl(channel.url);
+    if (urlError) {
+      errors.push(`${prefix} ${urlError}`);
+    }
+
+    // Chat services define their own payload, so only plain webhooks take headers and a secret
+    if (channel.type !== ChannelType.WEBHOOK && (channel.headers !== undefined || channel.secret !== undefined)) {
+      errors.push(`${prefix} headers and secret are only supported by webhook channels`);
+    }
+
+    if (channel.headers !== undefined) {
+      errors.push(...validateHeaders(channel.headers).map(error => `${prefix} ${error}`));
+    }
+
+    if (channel.secret !== undefined && (typeof channel.secret !== 'string' || !channel.secret)) {
+      errors.push(`${prefix} secret must be a non-empty string`);
+    }
+
+    if (!isPushChannel(channel as ChannelConfig)
+      && (channel.token !== undefined || channel.priorities !== undefined || channel.tags !== undefined)) {
+      errors.push(`${prefix} token, priorities and tags are only supported by ntfy and Gotify channels`);
+    } else if (channel.type === ChannelType.GOTIFY && channel.tags !== undefined) {
+      // Gotify messages have no tags; accepting them would silently drop them
+      errors.push(`${prefix} tags are only supported by ntfy channels`);
+    }
+
+    if (channel.token !== undefined && (typeof channel.token !== 'string' || !channel.token || /[\r\n]/.test(channel.token))) {
+      errors.push(`${prefix} token must be a non-empty single line of text`);
+    } else if (channel.type === ChannelType.GOTIFY && channel.token === undefined) {
+      errors.push(`${prefix} token is required: Gotify only accepts messages with an application token`);
+    }
+
+    if (channel.type === ChannelType.NTFY && !urlError && !parseNtfyTopicUrl(channel.url as string).topic) {
+      errors.push(`${prefix} url must include the topic, e.g. https://ntfy.sh/my-topic`);
+    }
+
+    if (channel.priorities !== undefined) {
+      if (!channel.priorities || typeof channel.priorities !== 'object' || Array.isArray(channel.priorities)) {
+        errors.push(`${prefix} priorities must be an object of event names and priorities`);
+      } else {
+        for (const [event, priority] of Object.entries(channel.priorities)) {
+          if (!Object.values(PushPriority).includes(priority)) {
+            errors.push(`${prefix} priority for '${event}' must be one of: ${Object.values(PushPriority).join(', ')}`);
+          }
+        }
+      }
+    }
+
+    if (channel.tags !== undefined && (!Array.isArray(channel.tags)
+      || !channel.tags.every(tag => typeof tag === 'string' && TAG_PATTERN.test(tag)))) {
+      errors.push(`${prefix} tags must be a list of names without commas`);
+    }
+
+    if (channel.timeoutMs !== undefined && (typeof channel.timeoutMs !== 'number'
+      || !Number.isInteger(channel.timeoutMs) || channel.timeoutMs <= 0 || channel.timeoutMs > MAX_CHANNEL_TIMEOUT_MS)) {
+      errors.push(`${prefix} timeoutMs must be a whole number of milliseconds up to ${MAX_CHANNEL_TIMEOUT_MS}`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
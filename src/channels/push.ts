@@ -0,0 +1,181 @@
+import { NotificationChannel, ChannelRequest, DEFAULT_CHANNEL_TIMEOUT_MS, maskUrl, truncate } from './base.js';
+import {
+  ChannelMessage,
+  ChannelType,
+  HookAction,
+  NotificationSeverity,
+  PushChannelConfig,
+  PushPriority,
+} from '../types/index.js';
+
+/**
+ * Priority key for permission prompts, which share the Notification hook with other notifications
+ */
+export const PERMISSION_PRIORITY_KEY = 'Notification:permission';
+
+/**
+ * Priorities used when a channel does not configure one for an event
+ */
+export const DEFAULT_PUSH_PRIORITIES: Record<string, PushPriority> = {
+  [PERMISSION_PRIORITY_KEY]: PushPriority.HIGH,
+};
+
+/**
+ * ntfy priority levels, from 1 (min) to 5 (urgent)
+ */
+const NTFY_PRIORITIES: Record<PushPriority, number> = {
+  [PushPriority.MIN]: 1,
+  [PushPriority.LOW]: 2,
+  [PushPriority.DEFAULT]: 3,
+  [PushPriority.HIGH]: 4,
+  [PushPriority.URGENT]: 5,
+};
+
+/**
+ * Gotify priority levels, from 0 (no notification) to 10; 8 and up pop up on Android
+ */
+const GOTIFY_PRIORITIES: Record<PushPriority, number> = {
+  [PushPriority.MIN]: 0,
+  [PushPriority.LOW]: 2,
+  [PushPriority.DEFAULT]: 5,
+  [PushPriority.HIGH]: 8,
+  [PushPriority.URGENT]: 10,
+};
+
+/**
+ * Maximum length of a push message body
+ */
+const PUSH_MESSAGE_MAX_LENGTH = 4000;
+
+/**
+ * Get the key a notification's priority is configured under
+ * @param message - Notification to deliver
+ * @returns Hook event name, or 'Notification:permission' for permission prompts
+ */
+export function getPushPriorityKey(message: ChannelMessage): string {
+  return message.action === HookAction.PERMISSION_NEEDED ? PERMISSION_PRIORITY_KEY : message.event;
+}
+
+/**
+ * Resolve the priority of a notification for a push channel
+ * @param config - Push channel configuration
+ * @param message - Notification to deliver
+ * @returns Configured priority for the event, else high for permission prompts and failures, else default
+ */
+export function resolvePushPriority(config: PushChannelConfig, message: ChannelMessage): PushPriority {
+  const key = getPushPriorityKey(message);
+  return config.priorities?.[key]
+    ?? DEFAULT_PUSH_PRIORITIES[key]
+    ?? (message.severity === NotificationSeverity.ERROR ? PushPriority.HIGH : PushPriority.DEFAULT);
+}
+
+/**
+ * Build the body of a push notification
+ * @param message - Notification to deliver
+ * @returns Notification text, followed by the reply excerpt if there is one
+ * @private
+ */
+function buildPushText(message: ChannelMessage): string {
+  return truncate(message.excerpt ? `${message.message}\n\n${message.excerpt}` : message.message, PUSH_MESSAGE_MAX_LENGTH);
+}
+
+/**
+ * Split an ntfy topic URL into the server URL and the topic
+ * @param url - Topic URL such as 'https://ntfy.sh/my-topic'
+ * @returns Server URL the JSON is published to, and the topic name (null if the URL has none)
+ */
+export function parseNtfyTopicUrl(url: string): { serverUrl: string; topic: string | null } {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  const topic = segments.pop() ?? null;
+
+  return {
+    serverUrl: `${parsed.origin}/${segments.map(segment => `${segment}/`).join('')}`,
+    topic: topic ? decodeURIComponent(topic) : null,
+  };
+}
+
+/**
+ * Channel publishing notifications to an ntfy topic
+ */
+export class NtfyChannel extends NotificationChannel {
+  override readonly type = ChannelType.NTFY;
+  private readonly config: PushChannelConfig;
+
+  constructor(config: PushChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  override describe(): string {
+    return `ntfy (${maskUrl(this.config.url)})`;
+  }
+
+  override getTimeout(): number {
+    return this.config.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  override buildRequest(message: ChannelMessage): ChannelRequest {
+    const { serverUrl, topic } = parseNtfyTopicUrl(this.config.url);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.config.token) {
+      headers['Authorization'] = `Bearer ${this.config.token}`;
+    }
+
+    // ntfy shows tags that name an emoji as that emoji in front of the title
+    const severityTag = message.severity === NotificationSeverity.ERROR ? 'rotating_light' : 'bell';
+
+    // Publishing as JSON keeps titles with emoji or non-ASCII text intact, unlike the header API
+    return {
+      url: serverUrl,
+      headers,
+      body: JSON.stringify({
+        topic,
+        title: message.title,
+        message: buildPushText(message),
+        priority: NTFY_PRIORITIES[resolvePushPriority(this.config, message)],
+        tags: [severityTag, ...(this.config.tags ?? [])],
+      }),
+    };
+  }
+}
+
+/**
+ * Channel sending notifications to a Gotify server
+ */
+export class GotifyChannel extends NotificationChannel {
+  override readonly type = ChannelType.GOTIFY;
+  private readonly config: PushChannelConfig;
+
+  constructor(config: PushChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  override describe(): string {
+    return `Gotify (${maskUrl(this.config.url)})`;
+  }
+
+  override getTimeout(): number {
+    return this.config.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  override buildRequest(message: ChannelMessage): ChannelRequest {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.config.token) {
+      headers['X-Gotify-Key'] = this.config.token;
+    }
+
+    return {
+      url: `${this.config.url.replace(/\/+$/, '')}/message`,
+      headers,
+      body: JSON.stringify({
+        title: message.title,
+        message: buildPushText(message),
+        priority: GOTIFY_PRIORITIES[resolvePushPriority(this.config, message)],
+      }),
+    };
+  }
+}
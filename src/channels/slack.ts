@@ -0,0 +1,96 @@
+import { NotificationChannel, ChannelRequest, DEFAULT_CHANNEL_TIMEOUT_MS, SEVERITY_EMOJI, maskUrl, quoteLines, truncate } from './base.js';
+import { ChannelMessage, ChannelType, ChatChannelConfig } from '../types/index.js';
+
+/**
+ * Maximum length of a Block Kit header
+ */
+const HEADER_MAX_LENGTH = 150;
+
+/**
+ * Maximum length of a Block Kit section text
+ */
+const SECTION_MAX_LENGTH = 3000;
+
+/**
+ * Escape the characters Slack treats as markup in mrkdwn text
+ * @param text - Plain text
+ * @returns Text safe to embed in mrkdwn
+ */
+export function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Build a Slack Block Kit message for a notification
+ * @param message - Notification to format
+ * @returns Payload for a Slack incoming webhook
+ */
+export function buildSlackPayload(message: ChannelMessage): Record<string, unknown> {
+  const emoji = SEVERITY_EMOJI[message.severity];
+  const details = [`*Project:* ${escapeSlackText(message.project)}`, `*Event:* ${escapeSlackText(message.event)}`];
+
+  if (message.duration) {
+    details.push(`*Duration:* ${message.duration}`);
+  }
+  if (message.session) {
+    details.push(`*Session:* ${escapeSlackText(message.session)}`);
+  }
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(`${emoji} ${message.title}`, HEADER_MAX_LENGTH), emoji: true },
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(escapeSlackText(message.message), SECTION_MAX_LENGTH) },
+    },
+  ];
+
+  if (message.excerpt) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(quoteLines(escapeSlackText(message.excerpt)), SECTION_MAX_LENGTH) },
+    });
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: details.map(text => ({ type: 'mrkdwn', text })),
+  });
+
+  // The top-level text is what Slack shows in push notifications and unfurls
+  return {
+    text: escapeSlackText(`${emoji} ${message.title}: ${message.message}`),
+    blocks,
+  };
+}
+
+/**
+ * Channel posting notifications to a Slack incoming webhook
+ */
+export class SlackChannel extends NotificationChannel {
+  override readonly type = ChannelType.SLACK;
+  private readonly config: ChatChannelConfig;
+
+  constructor(config: ChatChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  override describe(): string {
+    return `Slack (${maskUrl(this.config.url)})`;
+  }
+
+  override getTimeout(): number {
+    return this.config.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  override buildRequest(message: ChannelMessage): ChannelRequest {
+    return {
+      url: this.config.url,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildSlackPayload(message)),
+    };
+  }
+}
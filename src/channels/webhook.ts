@@ -0,0 +1,62 @@
+import { createHmac } from 'crypto';
+import { NotificationChannel, ChannelRequest, DEFAULT_CHANNEL_TIMEOUT_MS, maskUrl } from './base.js';
+import { ChannelMessage, ChannelType, WebhookChannelConfig } from '../types/index.js';
+
+/**
+ * Header carrying the HMAC signature of the request body
+ */
+export const SIGNATURE_HEADER = 'X-Notifier-Signature-256';
+
+/**
+ * Header carrying the hook event name
+ */
+export const EVENT_HEADER = 'X-Notifier-Event';
+
+/**
+ * Sign a request body with a shared secret
+ * @param body - Raw request body
+ * @param secret - Shared secret
+ * @returns Signature such as 'sha256=<hex digest>', as receivers compute it to verify the request
+ */
+export function signBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body, 'utf-8').digest('hex')}`;
+}
+
+/**
+ * Channel POSTing each notification as JSON to a configured URL
+ */
+export class WebhookChannel extends NotificationChannel {
+  override readonly type = ChannelType.WEBHOOK;
+  private readonly config: WebhookChannelConfig;
+
+  constructor(config: WebhookChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  override describe(): string {
+    return `Webhook (${maskUrl(this.config.url)})`;
+  }
+
+  override getTimeout(): number {
+    return this.config.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS;
+  }
+
+  override buildRequest(message: ChannelMessage): ChannelRequest {
+    const body = JSON.stringify(message);
+
+    // Custom headers come first so they cannot replace the content type or the signature
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      'User-Agent': 'claude-code-task-notifier',
+      [EVENT_HEADER]: message.event,
+    };
+
+    if (this.config.secret) {
+      headers[SIGNATURE_HEADER] = signBody(body, this.config.secret);
+    }
+
+    return { url: this.config.url, headers, body };
+  }
+}
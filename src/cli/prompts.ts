@@ -1,47 +1,98 @@
-import { checkbox, select, Separator } from '@inquirer/prompts';
+import { checkbox, input, password, select, Separator } from '@inquirer/prompts';
 import { UserCancelledError } from '../utils/errors.js';
-import { isSoundSupported } from '../platforms/index.js';
+import { isSoundSupported, getAvailableSounds, getDefaultSound } from '../platforms/index.js';
+import { NotificationPlatform } from '../platforms/base.js';
+import { NOTIFICATION_EVENT_DEFINITIONS, PERMISSION_SOUND_KEY, getEventLabel } from '../config/events.js';
+import { formatDuration } from '../runtime/sessions.js';
+import { WEEKDAY_NAMES, formatQuietHoursRange, parseTime } from '../runtime/schedule.js';
+import { NOTIFICATION_TEMPLATE, TEMPLATE_PLACEHOLDERS, getDefaultTemplate, validateTemplate } from '../runtime/template.js';
+import { getEventAction } from '../runtime/notify.js';
+import { formatToolRule, validateToolRules } from '../runtime/rules.js';
+import { DEFAULT_FAILURE_TOOLS, validateFailureAlerts } from '../runtime/failure.js';
+import { getHistoryProject, matchesHistoryFilter } from '../runtime/history.js';
+import { createChannel, validateChannelUrl, validateChannels, validateHeaders } from '../channels/index.js';
+import { DEFAULT_CHANNEL_TIMEOUT_MS, MAX_CHANNEL_TIMEOUT_MS } from '../channels/base.js';
 import {
   HookSelection,
+  SoundSelection,
   ConfirmationAction,
   ValidationResult,
   HookConfiguration,
   PromptChoice,
   MainMenuAction,
   ConfigurationStatus,
+  PlatformCapabilities,
+  MessageTemplate,
+  QuietHoursConfig,
+  QuietHoursMode,
+  QuietHoursRange,
+  ToolRule,
+  FailureAlertConfig,
+  HistoryEntry,
+  HistoryFilter,
+  DeliveryResult,
+  ChannelType,
+  WebhookChannelConfig,
+  ChatChannelConfig,
+  PushChannelConfig,
+  ChannelConfig,
 } from '../types/index.js';
 
+/**
+ * Choice value for automatic platform detection
+ */
+const AUTO_PLATFORM = '__auto__';
+
+/**
+ * Descriptions of the quiet hours modes
+ */
+const QUIET_HOURS_MODE_LABELS: Record<QuietHoursMode, string> = {
+  [QuietHoursMode.DROP]: 'Drop notifications',
+  [QuietHoursMode.SILENT]: 'Deliver without sound',
+  [QuietHoursMode.DIGEST]: 'Collect into a digest',
+};
+
+/**
+ * Explanations shown while a quiet hours mode is highlighted
+ */
+const QUIET_HOURS_MODE_HINTS: Partial<Record<QuietHoursMode, string>> = {
+  // Hooks only run while Claude Code is in use, so nothing can deliver the digest before then
+  [QuietHoursMode.DIGEST]: 'The digest is shown by the first Claude Code hook after quiet hours end, e.g. your next prompt',
+};
+
+/**
+ * Minimum run durations offered for stop notifications, in seconds
+ */
+const MIN_DURATION_CHOICES = [0, 10, 30, 60, 120, 300];
+
 /**
  * Get notification type choices (step 1 - private helper)
  * @returns Array of notification type choices
  */
 function getNotificationChoices(): (Separator | PromptChoice)[] {
+  const toChoice = ({ choiceLabel, selection }: typeof NOTIFICATION_EVENT_DEFINITIONS[number]): PromptChoice => ({
+    name: choiceLabel,
+    value: selection,
+  });
+
   return [
     new Separator(),
     new Separator('Select Notification Types'),
-    { name: 'Notify on task completion', value: HookSelection.ON_NOTIFICATION },
-    { name: 'Notify on task stop', value: HookSelection.ON_STOP },
+    ...NOTIFICATION_EVENT_DEFINITIONS.filter(definition => !definition.optIn).map(toChoice),
+    new Separator('More Events'),
+    ...NOTIFICATION_EVENT_DEFINITIONS.filter(definition => definition.optIn).map(toChoice),
   ];
 }
 
 /**
  * Prompt for sound preference for selected notification types
  * @param selectedNotifications - Previously selected notification types
- * @returns Whether to enable sound
- */
-async function promptSoundPreference(selectedNotifications: HookSelection[]): Promise<boolean> {
-  const notificationNames = selectedNotifications
-    .map(type => {
-      switch (type) {
-        case HookSelection.ON_NOTIFICATION:
-          return 'completion';
-        case HookSelection.ON_STOP:
-          return 'stop';
-        default:
-          return 'unknown';
-      }
-    })
-    .filter(name => name !== 'unknown');
+ * @returns Notification types that should play a sound
+ */
+async function promptSoundPreference(selectedNotifications: HookSelection[]): Promise<HookSelection[]> {
+  const definitions = NOTIFICATION_EVENT_DEFINITIONS.filter(definition =>
+    selectedNotifications.includes(definition.selection));
+  const notificationNames = definitions.map(definition => definition.soundLabel);
 
   const message = `Add sound to ${notificationNames.join(' and ')} notification${notificationNames.length > 1 ? 's' : ''}?`;
 
@@ -56,7 +107,26 @@ async function promptSoundPreference(selectedNotifications: HookSelection[]): Pr
     }, {
       clearPromptOnDone: true,
     });
-    return result;
+
+    if (!result || definitions.length === 1) {
+      return result ? definitions.map(definition => definition.selection) : [];
+    }
+
+    // Several types selected: let each one opt out of sound
+    return await checkbox({
+      message: 'Which notifications should play a sound? (Press <space> to toggle, <enter> to confirm)',
+      choices: definitions.map(definition => ({
+        name: definition.label,
+        value: definition.selection,
+        checked: true,
+      })),
+      theme: {
+        helpMode: 'never',
+      },
+      loop: false,
+    }, {
+      clearPromptOnDone: true,
+    });
   } catch (error) {
     if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
       throw new UserCancelledError('Sound preference cancelled');
@@ -65,6 +135,37 @@ async function promptSoundPreference(selectedNotifications: HookSelection[]): Pr
   }
 }
 
+/**
+ * Prompt for the sound of a single notification type
+ * @param label - Display name of the notification type
+ * @param sounds - Sounds available on the platform
+ * @returns Selected sound name
+ */
+async function promptSoundChoice(label: string, sounds: string[]): Promise<string> {
+  const defaultSound = getDefaultSound();
+
+  try {
+    const result = await select({
+      message: `Choose a sound for ${label} notifications`,
+      choices: sounds.map(sound => ({
+        name: sound === defaultSound ? `🔔 ${sound} (default)` : `🔔 ${sound}`,
+        value: sound,
+      })),
+      default: defaultSound ?? undefined,
+      pageSize: 10,
+      loop: false,
+    }, {
+      clearPromptOnDone: true,
+    });
+    return result;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Sound selection cancelled');
+    }
+    throw error;
+  }
+}
+
 /**
  * Show two-step hook selection prompt
  * @returns Array of selected hook values
@@ -98,53 +199,482 @@ export async function promptHookSelection(): Promise<HookSelection[]> {
   }
 
   // Step 2: Ask about sound (only if platform supports it)
-  let enableSound = false;
+  let withSound: HookSelection[] = [];
   if (isSoundSupported()) {
-    enableSound = await promptSoundPreference(selectedNotifications);
+    withSound = await promptSoundPreference(selectedNotifications);
   }
 
   // Combine results
   const finalSelections = [...selectedNotifications];
-  if (enableSound) {
-    selectedNotifications.forEach(type => {
-      if (type === HookSelection.ON_NOTIFICATION) {
-        finalSelections.push(HookSelection.ON_NOTIFICATION_SOUND);
-      } else if (type === HookSelection.ON_STOP) {
-        finalSelections.push(HookSelection.ON_STOP_SOUND);
-      }
-    });
+  for (const definition of NOTIFICATION_EVENT_DEFINITIONS) {
+    if (withSound.includes(definition.selection)) {
+      finalSelections.push(definition.soundSelection);
+    }
   }
 
   return finalSelections;
 }
 
+/**
+ * Prompt for the sound of each notification type that has sound enabled
+ * @param selectedHooks - Array of selected hook values
+ * @returns Sounds chosen per notification type (empty if the platform has no selectable sounds)
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptSoundSelection(selectedHooks: HookSelection[]): Promise<SoundSelection> {
+  const sounds = getAvailableSounds();
+  const selection: SoundSelection = {};
+
+  if (sounds.length === 0) {
+    return selection;
+  }
+
+  for (const definition of NOTIFICATION_EVENT_DEFINITIONS) {
+    if (!selectedHooks.includes(definition.soundSelection)) {
+      continue;
+    }
+
+    if (definition.event === 'Notification') {
+      selection[PERMISSION_SOUND_KEY] = await promptSoundChoice('permission request', sounds);
+      selection[definition.event] = await promptSoundChoice('waiting for input', sounds);
+    } else {
+      selection[definition.event] = await promptSoundChoice(definition.soundLabel, sounds);
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Prompt for a single template string
+ * @param message - Prompt message
+ * @param defaultValue - Pre-filled template
+ * @returns Entered template
+ */
+async function promptTemplateText(message: string, defaultValue: string): Promise<string> {
+  try {
+    const result = await input({
+      message,
+      default: defaultValue,
+      validate: (value) => {
+        const validation = validateTemplate(value);
+        return validation.isValid || validation.errors.join('; ');
+      },
+    });
+    return result.trim();
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Template editing cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Offer to customize the notification title and body of each selected event
+ * @param selectedHooks - Array of selected hook values
+ * @param templates - Currently configured templates per hook event
+ * @returns Templates per hook event, or null to keep the current templates
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptTemplateCustomization(
+  selectedHooks: HookSelection[],
+  templates: Record<string, MessageTemplate> = {}
+): Promise<Record<string, MessageTemplate> | null> {
+  const events = NOTIFICATION_EVENT_DEFINITIONS
+    .filter(definition => selectedHooks.includes(definition.selection))
+    .map(({ event, soundLabel }) => ({
+      event,
+      label: event === 'Notification' ? 'permission and input' : soundLabel,
+      fallback: event === 'Notification' ? NOTIFICATION_TEMPLATE : getDefaultTemplate(getEventAction(event)),
+    }));
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  let customize: boolean;
+  try {
+    customize = await select({
+      message: 'Customize notification messages?',
+      choices: [
+        { name: '✅ Yes', value: true },
+        { name: '❌ No, keep the current messages', value: false },
+      ],
+      default: false,
+    }, {
+      clearPromptOnDone: true,
+    });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Template editing cancelled');
+    }
+    throw error;
+  }
+
+  if (!customize) {
+    return null;
+  }
+
+  console.log(`  Placeholders: ${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(' ')}`);
+
+  const result: Record<string, MessageTemplate> = { ...templates };
+  for (const { event, label, fallback } of events) {
+    const current = templates[event] ?? fallback;
+    result[event] = {
+      title: await promptTemplateText(`Title for ${label} notifications`, current.title),
+      body: await promptTemplateText(`Message for ${label} notifications`, current.body),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Prompt for the minimum run duration that triggers a stop notification
+ * @param current - Currently configured threshold in seconds (0 to always notify)
+ * @returns Selected threshold in seconds
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptMinDuration(current: number): Promise<number> {
+  const values = MIN_DURATION_CHOICES.includes(current) ? MIN_DURATION_CHOICES : [...MIN_DURATION_CHOICES, current];
+
+  try {
+    const result = await select({
+      message: 'Only notify when a task ran longer than',
+      choices: values.map(seconds => ({
+        name: seconds > 0 ? `⏱️  ${formatDuration(seconds * 1000)}` : '🔔 Always notify',
+        value: seconds,
+      })),
+      default: current,
+      loop: false,
+    }, {
+      clearPromptOnDone: true,
+    });
+    return result;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Duration threshold cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse custom headers entered as 'Name: value; Name2: value'
+ * @param text - Entered headers
+ * @returns Headers keyed by name, or an error message for an entry without a name
+ * @private
+ */
+function parseHeaderList(text: string): Record<string, string> | string {
+  const headers: Record<string, string> = {};
+
+  for (const entry of text.split(';').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      return `'${entry}' must look like 'Name: value'`;
+    }
+    headers[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Prompt for the webhook that receives every notification as JSON
+ * @param current - Currently configured webhook, or null if there is none
+ * @returns Webhook to save, or null to deliver without a webhook
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptWebhookChannel(current: WebhookChannelConfig | null): Promise<WebhookChannelConfig | null> {
+  try {
+    const choice = await select({
+      message: 'Also POST notifications to a webhook?',
+      choices: current
+        ? [
+          { name: `📡 Keep ${createChannel(current).describe()}`, value: 'keep' },
+          { name: '✏️  Change the webhook', value: 'edit' },
+          { name: '🗑️  Remove the webhook', value: 'remove' },
+        ]
+        : [
+          { name: '🚫 No webhook', value: 'remove' },
+          { name: '📡 Add a webhook', value: 'edit' },
+        ],
+    }, {
+      clearPromptOnDone: true,
+    });
+
+    if (choice === 'keep' || choice === 'remove') {
+      return choice === 'keep' ? current : null;
+    }
+
+    const url = (await input({
+      message: 'Webhook URL',
+      default: current?.url ?? '',
+      validate: (value) => validateChannelUrl(value.trim()) ?? true,
+    })).trim();
+
+    const headers = parseHeaderList(await input({
+      message: "Custom headers ('Name: value', separated by ';', empty for none)",
+      default: Object.entries(current?.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('; '),
+      validate: (value) => {
+        const parsed = parseHeaderList(value);
+        if (typeof parsed === 'string') {
+          return parsed;
+        }
+        const errors = validateHeaders(parsed);
+        return errors.length === 0 || errors.join('; ');
+      },
+    })) as Record<string, string>;
+
+    const secret = (await password({
+      message: current?.secret
+        ? "HMAC secret for signing requests (empty to keep the current one, '-' to remove it)"
+        : 'HMAC secret for signing requests (empty for unsigned requests)',
+      mask: true,
+    })).trim();
+
+    const timeoutSeconds = Number(await input({
+      message: 'Seconds to wait for the webhook to respond',
+      default: String((current?.timeoutMs ?? DEFAULT_CHANNEL_TIMEOUT_MS) / 1000),
+      validate: (value) => {
+        const seconds = Number(value);
+        return (Number.isFinite(seconds) && seconds > 0 && seconds * 1000 <= MAX_CHANNEL_TIMEOUT_MS)
+          || `Enter a number of seconds up to ${MAX_CHANNEL_TIMEOUT_MS / 1000}`;
+      },
+    }));
+
+    const config: WebhookChannelConfig = { type: ChannelType.WEBHOOK, url };
+
+    if (Object.keys(headers).length > 0) {
+      config.headers = headers;
+    }
+
+    const keptSecret = secret === '' ? current?.secret : secret;
+    if (keptSecret && keptSecret !== '-') {
+      config.secret = keptSecret;
+    }
+
+    const timeoutMs = Math.round(timeoutSeconds * 1000);
+    if (timeoutMs !== DEFAULT_CHANNEL_TIMEOUT_MS) {
+      config.timeoutMs = timeoutMs;
+    }
+
+    return config;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Webhook configuration cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Chat services offered as channel presets
+ */
+const CHAT_CHANNEL_CHOICES: { label: string; icon: string; value: ChatChannelConfig['type']; example: string }[] = [
+  { label: 'Slack', icon: '💬', value: ChannelType.SLACK, example: 'https://hooks.slack.com/services/…' },
+  { label: 'Discord', icon: '🎮', value: ChannelType.DISCORD, example: 'https://discord.com/api/webhooks/…' },
+];
+
+/**
+ * Prompt for Slack and Discord channels that receive formatted notifications
+ * @param current - Currently configured Slack and Discord channels
+ * @returns Channels to save (empty to post to neither)
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptChatChannels(current: ChatChannelConfig[]): Promise<ChatChannelConfig[]> {
+  try {
+    const types = await checkbox({
+      message: 'Post notifications to team chat? (Press <space> to toggle, <enter> to confirm)',
+      choices: CHAT_CHANNEL_CHOICES.map(choice => ({
+        name: `${choice.icon} ${choice.label}`,
+        value: choice.value,
+        checked: current.some(channel => channel.type === choice.value),
+      })),
+      theme: {
+        helpMode: 'never',
+      },
+    }, {
+      clearPromptOnDone: true,
+    });
+
+    const channels: ChatChannelConfig[] = [];
+    for (const choice of CHAT_CHANNEL_CHOICES.filter(choice => types.includes(choice.value))) {
+      const existing = current.find(channel => channel.type === choice.value);
+
+      // Keep the saved URL without showing it, since it contains the webhook token
+      const url = (await input({
+        message: existing
+          ? `${choice.label} webhook URL (empty to keep ${createChannel(existing).describe()})`
+          : `${choice.label} webhook URL (${choice.example})`,
+        validate: (value) => (existing && !value.trim()) || (validateChannelUrl(value.trim()) ?? true),
+      })).trim();
+
+      channels.push(existing && !url ? existing : { ...existing, type: choice.value, url });
+    }
+
+    return channels;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Chat channel configuration cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Push services offered as channel presets
+ */
+const PUSH_CHANNEL_CHOICES: { label: string; value: PushChannelConfig['type']; example: string }[] = [
+  { label: 'ntfy', value: ChannelType.NTFY, example: 'topic URL, e.g. https://ntfy.sh/my-topic' },
+  { label: 'Gotify', value: ChannelType.GOTIFY, example: 'server URL, e.g. https://gotify.example.com' },
+];
+
+/**
+ * Prompt for ntfy and Gotify channels that push notifications to phones
+ * @param current - Currently configured ntfy and Gotify channels
+ * @returns Channels to save (empty to push to neither)
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptPushChannels(current: PushChannelConfig[]): Promise<PushChannelConfig[]> {
+  try {
+    const types = await checkbox({
+      message: 'Push notifications to your phone? (Press <space> to toggle, <enter> to confirm)',
+      choices: PUSH_CHANNEL_CHOICES.map(choice => ({
+        name: `📲 ${choice.label}`,
+        value: choice.value,
+        checked: current.some(channel => channel.type === choice.value),
+      })),
+      theme: {
+        helpMode: 'never',
+      },
+    }, {
+      clearPromptOnDone: true,
+    });
+
+    const channels: PushChannelConfig[] = [];
+    for (const choice of PUSH_CHANNEL_CHOICES.filter(choice => types.includes(choice.value))) {
+      const existing = current.find(channel => channel.type === choice.value);
+      const tokenRequired = choice.value === ChannelType.GOTIFY;
+
+      const url = (await input({
+        message: `${choice.label} ${choice.example}`,
+        default: existing?.url ?? '',
+        validate: (value) => {
+          const validation = validateChannels([{ type: choice.value, url: value.trim(), token: 'token' }]);
+          return validation.isValid || validation.errors.join('; ').replace(/channel 1 /g, '');
+        },
+      })).trim();
+
+      const token = (await password({
+        message: existing?.token
+          ? `${choice.label} access token (empty to keep the current one${tokenRequired ? '' : ", '-' to remove it"})`
+          : `${choice.label} ${tokenRequired ? 'application token' : 'access token (empty for a public topic)'}`,
+        mask: true,
+        validate: (value) => !tokenRequired || Boolean(value.trim() || existing?.token) || 'Gotify needs an application token',
+      })).trim();
+
+      const channel: PushChannelConfig = { ...existing, type: choice.value, url };
+
+      const keptToken = token === '' ? existing?.token : token;
+      if (keptToken && keptToken !== '-') {
+        channel.token = keptToken;
+      } else {
+        delete channel.token;
+      }
+
+      // Only ntfy displays tags
+      if (choice.value === ChannelType.NTFY) {
+        const tags = (await input({
+          message: 'Tags (comma-separated, e.g. robot or computer to show that emoji; empty for none)',
+          default: (existing?.tags ?? []).join(', '),
+        })).split(',').map(tag => tag.trim()).filter(Boolean);
+
+        if (tags.length > 0) {
+          channel.tags = tags;
+        } else {
+          delete channel.tags;
+        }
+      }
+
+      channels.push(channel);
+    }
+
+    return channels;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Push channel configuration cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prompt for the channels to send a test notification to
+ * @param channels - Configured channels
+ * @returns Channels to test
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptTestChannels(channels: ChannelConfig[]): Promise<ChannelConfig[]> {
+  if (channels.length === 1) {
+    return channels;
+  }
+
+  try {
+    const selected = await select<ChannelConfig | null>({
+      message: 'Send a test notification to',
+      choices: [
+        { name: '📡 All channels', value: null },
+        ...channels.map(channel => ({ name: `   ${createChannel(channel).describe()}`, value: channel })),
+      ],
+      loop: false,
+    }, {
+      clearPromptOnDone: true,
+    });
+    return selected ? [selected] : channels;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Test notification cancelled');
+    }
+    throw error;
+  }
+}
+
 /**
  * Generate confirmation choices showing selected hooks
  * @param selectedHooks - Array of selected hook values
+ * @param sounds - Sounds chosen per notification type
  * @returns Array of choice objects for confirmation prompt
  */
-export function generateConfirmationChoices(selectedHooks: HookSelection[]): (Separator | PromptChoice)[] {
+export function generateConfirmationChoices(
+  selectedHooks: HookSelection[],
+  sounds: SoundSelection = {}
+): (Separator | PromptChoice)[] {
   const resultArray: Separator[] = [];
 
   // Show selected notification types
-  const hasNotification = selectedHooks.includes(HookSelection.ON_NOTIFICATION);
-  const hasStop = selectedHooks.includes(HookSelection.ON_STOP);
-  const hasNotificationSound = selectedHooks.includes(HookSelection.ON_NOTIFICATION_SOUND);
-  const hasStopSound = selectedHooks.includes(HookSelection.ON_STOP_SOUND);
+  const selected = NOTIFICATION_EVENT_DEFINITIONS.filter(definition => selectedHooks.includes(definition.selection));
+  const soundText = (definition: typeof selected[number], sound: string | undefined): string =>
+    selectedHooks.includes(definition.soundSelection) ? ` with sound 🔔${sound ? ` (${sound})` : ''}` : '';
 
   resultArray.push(new Separator('Selected Configuration:'));
 
-  if (hasNotification) {
-    const soundText = hasNotificationSound ? ' with sound 🔔' : '';
-    resultArray.push(new Separator(`  [X] Task completion notification${soundText}`));
-  }
+  for (const definition of selected) {
+    if (definition.event === 'Notification') {
+      resultArray.push(new Separator(`  [X] Permission request alert${soundText(definition, sounds[PERMISSION_SOUND_KEY])}`));
+      resultArray.push(new Separator(`  [X] Waiting for input alert${soundText(definition, sounds[definition.event])}`));
+      continue;
+    }
+
+    resultArray.push(new Separator(`  [X] ${definition.label}${soundText(definition, sounds[definition.event])}`));
 
-  if (hasStop) {
-    const soundText = hasStopSound ? ' with sound 🔔' : '';
-    resultArray.push(new Separator(`  [X] Task stop notification${soundText}`));
+    if (definition.event === 'Stop') {
+      resultArray.push(new Separator(`      + run duration tracking (${definition.companions.join(' and ')} hooks)`));
+    }
   }
 
-  if (!hasNotification && !hasStop) {
+  if (selected.length === 0) {
     resultArray.push(new Separator('  [ ] No notifications selected'));
   }
 
@@ -166,11 +696,15 @@ export function generateConfirmationChoices(selectedHooks: HookSelection[]): (Se
 /**
  * Show confirmation prompt with selected hooks
  * @param selectedHooks - Array of selected hook values
+ * @param sounds - Sounds chosen per notification type
  * @returns The action selected ('install' or 'exit')
  * @throws UserCancelledError if user cancels the operation
  */
-export async function promptConfirmation(selectedHooks: HookSelection[]): Promise<ConfirmationAction> {
-  const confirmationChoices = generateConfirmationChoices(selectedHooks);
+export async function promptConfirmation(
+  selectedHooks: HookSelection[],
+  sounds: SoundSelection = {}
+): Promise<ConfirmationAction> {
+  const confirmationChoices = generateConfirmationChoices(selectedHooks, sounds);
 
   try {
     const action = await select({
@@ -215,12 +749,10 @@ export function validateHookSelection(selectedHooks: HookSelection[]): Validatio
   }
 
   // Validate logical consistency: sound hooks should have corresponding base hooks
-  if (selectedHooks.includes(HookSelection.ON_NOTIFICATION_SOUND) && !selectedHooks.includes(HookSelection.ON_NOTIFICATION)) {
-    errors.push('Sound for completion notification requires base notification to be enabled');
-  }
-
-  if (selectedHooks.includes(HookSelection.ON_STOP_SOUND) && !selectedHooks.includes(HookSelection.ON_STOP)) {
-    errors.push('Sound for stop notification requires base notification to be enabled');
+  for (const definition of NOTIFICATION_EVENT_DEFINITIONS) {
+    if (selectedHooks.includes(definition.soundSelection) && !selectedHooks.includes(definition.selection)) {
+      errors.push(`Sound for ${definition.soundLabel} notification requires base notification to be enabled`);
+    }
   }
 
   return {
@@ -232,17 +764,51 @@ export function validateHookSelection(selectedHooks: HookSelection[]): Validatio
 /**
  * Get hook configuration from selected hooks
  * @param selectedHooks - Array of selected hook values
+ * @param sounds - Sounds chosen per notification type
  * @returns Object containing hook configuration preferences
  */
-export function parseHookSelection(selectedHooks: HookSelection[]): HookConfiguration {
-  return {
-    notificationEnabled: selectedHooks.includes(HookSelection.ON_NOTIFICATION),
-    notificationWithSound: selectedHooks.includes(HookSelection.ON_NOTIFICATION_SOUND),
-    stopEnabled: selectedHooks.includes(HookSelection.ON_STOP),
-    stopWithSound: selectedHooks.includes(HookSelection.ON_STOP_SOUND),
-  };
+export function parseHookSelection(selectedHooks: HookSelection[], sounds: SoundSelection = {}): HookConfiguration {
+  const config: HookConfiguration = {};
+
+  for (const definition of NOTIFICATION_EVENT_DEFINITIONS) {
+    const eventConfig: HookConfiguration[string] = {
+      enabled: selectedHooks.includes(definition.selection),
+      withSound: selectedHooks.includes(definition.soundSelection),
+    };
+
+    const sound = sounds[definition.event];
+    if (eventConfig.withSound && sound) {
+      eventConfig.sound = sound;
+    }
+
+    const permissionSound = sounds[PERMISSION_SOUND_KEY];
+    if (definition.event === 'Notification' && eventConfig.withSound && permissionSound) {
+      eventConfig.permissionSound = permissionSound;
+    }
+
+    config[definition.event] = eventConfig;
+  }
+
+  return config;
 }
 
+/**
+ * Main menu entries, in display order; other screens refer to them by these labels
+ */
+export const MAIN_MENU_LABELS: Record<MainMenuAction, string> = {
+  [MainMenuAction.VIEW_CONFIG]: '📋 View Current Configuration',
+  [MainMenuAction.QUIET_HOURS]: '🌙 Quiet Hours',
+  [MainMenuAction.TOOL_RULES]: '🛠️  Tool Rules',
+  [MainMenuAction.FAILURE_ALERTS]: '🚨 Failure Alerts',
+  [MainMenuAction.HISTORY]: '📜 History',
+  [MainMenuAction.STATS]: '📊 Usage Statistics',
+  [MainMenuAction.TEST_PUSH]: '📲 Send Test Push',
+  [MainMenuAction.INSTALL_MODIFY]: '⚙️  Install Notifications',
+  [MainMenuAction.SELECT_PLATFORM]: '🖥️  Choose Notification Platform',
+  [MainMenuAction.REMOVE]: '🗑️  Remove Notifications',
+  [MainMenuAction.EXIT]: '❌ Exit',
+};
+
 /**
  * Show main menu for application actions
  * @returns Selected main menu action
@@ -251,10 +817,7 @@ export function parseHookSelection(selectedHooks: HookSelection[]): HookConfigur
 export async function promptMainMenu(): Promise<MainMenuAction> {
   const choices = [
     new Separator(),
-    { name: '📋 View Current Configuration', value: MainMenuAction.VIEW_CONFIG },
-    { name: '⚙️  Install Notifications', value: MainMenuAction.INSTALL_MODIFY },
-    { name: '🗑️  Remove Notifications', value: MainMenuAction.REMOVE },
-    { name: '❌ Exit', value: MainMenuAction.EXIT },
+    ...(Object.entries(MAIN_MENU_LABELS) as [MainMenuAction, string][]).map(([value, name]) => ({ name, value })),
     new Separator(),
   ];
 
@@ -262,7 +825,8 @@ export async function promptMainMenu(): Promise<MainMenuAction> {
     const action = await select({
       message: 'Please select an action (Press <enter> to confirm)',
       choices,
-      pageSize: 10,
+      // Show every entry at once rather than scrolling the last ones out of view
+      pageSize: choices.length,
       loop: false,
     });
 
@@ -275,6 +839,42 @@ export async function promptMainMenu(): Promise<MainMenuAction> {
   }
 }
 
+/**
+ * Describe the features a platform declares
+ * @param capabilities - Platform capabilities
+ * @returns Comma-separated feature list
+ */
+function describeCapabilities(capabilities: PlatformCapabilities | null): string {
+  if (!capabilities) {
+    return 'None';
+  }
+
+  const features: [boolean, string][] = [
+    [capabilities.sound, 'sound'],
+    [capabilities.customSounds, 'custom sounds'],
+    [capabilities.icons, 'icons'],
+    [capabilities.clickActions, 'click actions'],
+    [capabilities.urgency, 'urgency'],
+    [capabilities.grouping, 'grouping'],
+  ];
+
+  const supported = features.filter(([enabled]) => enabled).map(([, name]) => name);
+  return supported.length > 0 ? supported.join(', ') : 'None';
+}
+
+/**
+ * Describe a quiet hours schedule
+ * @param quietHours - Quiet hours configuration
+ * @returns Mode and time ranges, or 'Off'
+ */
+function describeQuietHours(quietHours: QuietHoursConfig | null): string {
+  if (!quietHours?.enabled || quietHours.ranges.length === 0) {
+    return 'Off';
+  }
+
+  return `${QUIET_HOURS_MODE_LABELS[quietHours.mode]} (${quietHours.ranges.map(formatQuietHoursRange).join(', ')})`;
+}
+
 /**
  * Display current configuration status
  * @param config - Configuration status to display
@@ -288,23 +888,91 @@ export function displayConfiguration(config: ConfigurationStatus): void {
   } else {
     console.log('✅ Installed hooks:');
 
-    if (config.notifications.enabled) {
-      const soundText = config.notifications.hasSound ? ' (with sound 🔔)' : ' (silent)';
-      console.log(`   • Task completion notification${soundText}`);
-    }
+    for (const definition of NOTIFICATION_EVENT_DEFINITIONS) {
+      const status = config.events[definition.event];
+      if (!status?.enabled) {
+        continue;
+      }
+
+      const soundText = status.sound ? ` (sound: ${status.sound} 🔔)` : ' (silent)';
+
+      if (definition.event === 'Notification') {
+        const permissionText = status.permissionSound ? ` (sound: ${status.permissionSound} 🔔)` : ' (silent)';
+        console.log(`   • Permission request alert${permissionText}`);
+        console.log(`   • Waiting for input alert${soundText}`);
+        continue;
+      }
 
-    if (config.stop.enabled) {
-      const soundText = config.stop.hasSound ? ' (with sound 🔔)' : ' (silent)';
-      console.log(`   • Task stop notification${soundText}`);
+      const durationText = status.tracksDuration ? ', shows run duration ⏱️' : '';
+      console.log(`   • ${definition.label}${soundText}${durationText}`);
+
+      if (definition.event === 'Stop') {
+        const minDurationSeconds = status.minDurationSeconds ?? 0;
+        const thresholdText = minDurationSeconds > 0
+          ? `only for tasks longer than ${formatDuration(minDurationSeconds * 1000)}`
+          : 'every task';
+        console.log(`     Notifies for ${thresholdText}`);
+      }
     }
   }
 
-  console.log(`\n🖥️ Platform: ${config.platform.name}`);
+  const selectionText = config.platform.preferred ? `preferred: ${config.platform.preferred}` : 'automatic';
+  console.log(`\n🖥️ Platform: ${config.platform.name} (${selectionText})`);
   console.log(`🔊 Sound Support: ${config.platform.soundSupported ? 'Yes' : 'No'}`);
+  console.log(`✨ Features: ${describeCapabilities(config.platform.capabilities)}`);
+  console.log(`🌙 Quiet Hours: ${describeQuietHours(config.quietHours)}`);
+  console.log(`🛠️ Tool Rules: ${config.toolRules.length === 0 ? 'None' : config.toolRules.length}`);
+  config.toolRules.forEach(rule => console.log(`   • ${formatToolRule(rule)}`));
+  console.log(`🚨 Failure Alerts: ${config.failureAlerts ? config.failureAlerts.tools.join(', ') : 'Off'}`);
+  console.log(`📡 Channels: ${config.channels.length === 0 ? 'None' : config.channels.length}`);
+  config.channels.forEach(channel => console.log(`   • ${createChannel(channel).describe()}`));
   console.log(`📁 Settings File: ${config.settingsPath}`);
   console.log('─'.repeat(50));
 }
 
+/**
+ * Prompt for the platform to deliver notifications with
+ * @param platforms - Registered platforms
+ * @param preferred - Currently preferred platform name, or null for automatic detection
+ * @returns Selected platform name, or null for automatic detection
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptPlatformSelection(
+  platforms: NotificationPlatform[],
+  preferred: string | null
+): Promise<string | null> {
+  const choices = [
+    new Separator(),
+    { name: '🔍 Automatic (first supported platform)', value: AUTO_PLATFORM },
+    ...platforms.map(platform => {
+      const supported = platform.isSupported();
+      return {
+        name: `${platform.capabilities.displayName} [${platform.id}]`,
+        value: platform.id,
+        disabled: supported ? false : 'not available on this system',
+      };
+    }),
+    new Separator(),
+  ];
+
+  try {
+    const result = await select({
+      message: 'Choose the platform used for notifications',
+      choices,
+      default: preferred ?? AUTO_PLATFORM,
+      pageSize: 10,
+      loop: false,
+    });
+
+    return result === AUTO_PLATFORM ? null : result;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Platform selection cancelled');
+    }
+    throw error;
+  }
+}
+
 /**
  * Prompt for removal selection
  * @param installedHooks - Array of currently installed hook names
@@ -320,7 +988,7 @@ export async function promptRemovalSelection(installedHooks: string[]): Promise<
     new Separator(),
     new Separator('Select notification types to remove'),
     ...installedHooks.map(hookName => ({
-      name: hookName === 'Notification' ? 'Task completion notification' : 'Task stop notification',
+      name: getEventLabel(hookName),
       value: hookName,
       checked: false,
     })),
@@ -357,9 +1025,7 @@ export async function promptRemovalSelection(installedHooks: string[]): Promise<
  * @throws UserCancelledError if user cancels the operation
  */
 export async function promptRemovalConfirmation(hooksToRemove: string[]): Promise<boolean> {
-  const hookDisplayNames = hooksToRemove.map(hookName =>
-    hookName === 'Notification' ? 'Task completion notification' : 'Task stop notification'
-  );
+  const hookDisplayNames = hooksToRemove.map(getEventLabel);
 
   const choices = [
     new Separator(),
@@ -388,3 +1054,396 @@ export async function promptRemovalConfirmation(hooksToRemove: string[]): Promis
     throw error;
   }
 }
+
+/**
+ * Prompt for a single quiet hours time range
+ * @param current - Range to start from
+ * @returns Entered range
+ * @private
+ */
+async function promptQuietHoursRange(current: QuietHoursRange): Promise<QuietHoursRange> {
+  // Offer Monday first, as most schedules are work weeks
+  const dayOrder = [1, 2, 3, 4, 5, 6, 0];
+  const validateTime = (value: string): boolean | string =>
+    parseTime(value.trim()) !== null || 'Enter a 24-hour time such as 22:00';
+
+  const days = await checkbox({
+    message: 'Days (Press <space> to toggle, <enter> to confirm)',
+    choices: dayOrder.map(day => ({
+      name: WEEKDAY_NAMES[day]!,
+      value: day,
+      checked: current.days.includes(day),
+    })),
+    validate: (choices) => choices.length > 0 || 'Select at least one day',
+    theme: {
+      helpMode: 'never',
+    },
+    loop: false,
+  });
+
+  const start = await input({ message: 'Start time (HH:MM)', default: current.start, validate: validateTime });
+  const end = await input({ message: 'End time (HH:MM, before the start time to run past midnight)', default: current.end, validate: validateTime });
+
+  return { days: days.sort((a, b) => a - b), start: start.trim(), end: end.trim() };
+}
+
+/**
+ * Prompt for the quiet hours schedule
+ * @param current - Current quiet hours configuration, if any
+ * @returns New configuration, or null to turn quiet hours off
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptQuietHours(current: QuietHoursConfig | null): Promise<QuietHoursConfig | null> {
+  try {
+    const mode = await select<QuietHoursMode | 'off'>({
+      message: 'During quiet hours',
+      choices: [
+        ...Object.values(QuietHoursMode).map(value => ({
+          name: QUIET_HOURS_MODE_LABELS[value],
+          value,
+          ...(QUIET_HOURS_MODE_HINTS[value] ? { description: QUIET_HOURS_MODE_HINTS[value] } : {}),
+        })),
+        { name: '🔔 Turn quiet hours off', value: 'off' as const },
+      ],
+      default: current?.enabled ? current.mode : QuietHoursMode.SILENT,
+      loop: false,
+    });
+
+    if (mode === 'off') {
+      return null;
+    }
+
+    const ranges: QuietHoursRange[] = [];
+    const previous = current?.ranges ?? [];
+
+    do {
+      const range = await promptQuietHoursRange(previous[ranges.length] ?? { days: [1, 2, 3, 4, 5], start: '22:00', end: '07:00' });
+      ranges.push(range);
+      console.log(`  Added ${formatQuietHoursRange(range)}`);
+    } while (await select({
+      message: 'Add another time range?',
+      choices: [
+        { name: '❌ No', value: false },
+        { name: '✅ Yes', value: true },
+      ],
+      default: ranges.length < previous.length,
+    }, {
+      clearPromptOnDone: true,
+    }));
+
+    return { enabled: true, mode, ranges };
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Quiet hours editing cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Prompt for a new tool rule (private helper)
+ * @param rules - Existing rules, to pick an unused id
+ * @returns New rule
+ */
+async function promptToolRule(rules: ToolRule[]): Promise<ToolRule> {
+  const event = await select({
+    message: 'Notify',
+    choices: [
+      { name: 'Before the tool runs (PreToolUse)', value: 'PreToolUse' },
+      { name: 'After the tool succeeds (PostToolUse)', value: 'PostToolUse' },
+    ],
+    loop: false,
+  });
+
+  let next = rules.length + 1;
+  while (rules.some(rule => rule.id === `rule-${next}`)) {
+    next++;
+  }
+  const id = `rule-${next}`;
+
+  const matcher = (await input({
+    message: 'Tool name or pattern (e.g. Bash, Edit|Write, mcp__.*; * for any tool)',
+    default: 'Bash',
+    validate: (value) => {
+      const validation = validateToolRules([{ id, event, matcher: value.trim() }]);
+      return validation.isValid || validation.errors.join('; ').replace(/^rule 1 /, '');
+    },
+  })).trim();
+
+  const pattern = (await input({
+    message: 'Only when the tool input contains (e.g. git push, package.json; empty for every call)',
+  })).trim();
+
+  return pattern ? { id, event, matcher, pattern } : { id, event, matcher };
+}
+
+/**
+ * Prompt to add and delete tool rules
+ * @param current - Current tool rules
+ * @returns Rules to save
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptToolRules(current: ToolRule[]): Promise<ToolRule[]> {
+  const rules = [...current];
+
+  try {
+    while (true) {
+      const choice = await select<string>({
+        message: 'Tool rules (select a rule to delete it)',
+        choices: [
+          new Separator(),
+          ...rules.map(rule => ({ name: `🗑️  ${formatToolRule(rule)}`, value: rule.id })),
+          ...(rules.length === 0 ? [new Separator('  No tool rules yet')] : []),
+          new Separator(),
+          { name: '➕ Add a rule', value: 'add' },
+          { name: '💾 Save rules', value: 'save' },
+          { name: '❌ Cancel', value: 'cancel' },
+        ],
+        loop: false,
+        pageSize: 15,
+      });
+
+      if (choice === 'save') {
+        return rules;
+      }
+
+      if (choice === 'cancel') {
+        throw new UserCancelledError('Tool rule editing cancelled');
+      }
+
+      if (choice === 'add') {
+        rules.push(await promptToolRule(rules));
+      } else {
+        rules.splice(rules.findIndex(rule => rule.id === choice), 1);
+      }
+    }
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Tool rule editing cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tools offered when choosing which failures to be alerted about
+ */
+const FAILURE_TOOL_CHOICES: PromptChoice[] = [
+  { name: 'Shell commands (Bash)', value: 'Bash' },
+  { name: 'File edits (Edit, MultiEdit, Write)', value: 'Edit|MultiEdit|Write' },
+  { name: 'Notebook edits (NotebookEdit)', value: 'NotebookEdit' },
+  { name: 'Web requests (WebFetch)', value: 'WebFetch' },
+  { name: 'MCP tools (mcp__*)', value: 'mcp__.*' },
+];
+
+/**
+ * Prompt for the tools whose failures send an alert
+ * @param current - Current failure alert configuration, if any
+ * @returns New configuration, or null to turn failure alerts off
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptFailureAlerts(current: FailureAlertConfig | null): Promise<FailureAlertConfig | null> {
+  try {
+    const enabled = await select({
+      message: 'Alert when a tool call fails (e.g. a build or test command exits with an error)?',
+      choices: [
+        { name: '🚨 Yes, alert on failures', value: true },
+        { name: '🔕 No, turn failure alerts off', value: false },
+      ],
+      default: true,
+    }, {
+      clearPromptOnDone: true,
+    });
+
+    if (!enabled) {
+      return null;
+    }
+
+    const currentTools = current?.tools ?? DEFAULT_FAILURE_TOOLS;
+    const knownTools = FAILURE_TOOL_CHOICES.map(choice => choice.value);
+
+    const tools = await checkbox({
+      message: 'Which tools should alert when they fail? (Press <space> to toggle, <enter> to confirm)',
+      choices: FAILURE_TOOL_CHOICES.map(choice => ({ ...choice, checked: currentTools.includes(choice.value) })),
+      theme: {
+        helpMode: 'never',
+      },
+      loop: false,
+    }, {
+      clearPromptOnDone: true,
+    });
+
+    const otherTools = (await input({
+      message: 'Other tools (comma-separated names or patterns, empty for none)',
+      default: currentTools.filter(tool => !knownTools.includes(tool)).join(', '),
+      validate: (value) => {
+        const names = value.split(',').map(name => name.trim()).filter(Boolean);
+        if (names.length === 0) {
+          return true;
+        }
+        const validation = validateFailureAlerts({ tools: names });
+        return validation.isValid || validation.errors.join('; ');
+      },
+    })).split(',').map(name => name.trim()).filter(Boolean);
+
+    const allTools = [...tools, ...otherTools];
+    if (allTools.length === 0) {
+      return null;
+    }
+
+    const config: FailureAlertConfig = { tools: allTools };
+
+    const sounds = isSoundSupported() ? getAvailableSounds() : [];
+    if (sounds.length > 0) {
+      config.sound = await promptSoundChoice('failure', sounds);
+    }
+
+    return config;
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('Failure alert editing cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Number of history entries shown per page
+ */
+const HISTORY_PAGE_SIZE = 10;
+
+/**
+ * Icons for delivery results in the history screen
+ */
+const DELIVERY_RESULT_ICONS: Record<DeliveryResult, string> = {
+  sent: '✅',
+  silent: '🔕',
+  digest: '📨',
+  drop: '🚫',
+  failed: '❌',
+  skipped: '⏭️',
+  merged: '🔗',
+};
+
+/**
+ * Format a history entry as a single line (private helper)
+ * @param entry - History entry
+ * @returns Line with time, result, event, project and message
+ */
+function formatHistoryEntry(entry: HistoryEntry): string {
+  const date = new Date(entry.timestamp);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const time = Number.isNaN(date.getTime())
+    ? entry.timestamp
+    : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  const message = entry.message.length > 60 ? `${entry.message.slice(0, 59)}…` : entry.message;
+  const icon = DELIVERY_RESULT_ICONS[entry.result] ?? '•';
+
+  return `${time} ${icon} ${entry.event.padEnd(12)} ${getHistoryProject(entry).padEnd(16)} ${message}`;
+}
+
+/**
+ * Prompt for one of the values found in the history (private helper)
+ * @param message - Prompt message
+ * @param values - Values to choose from
+ * @returns Selected value, or undefined to match everything
+ */
+async function promptHistoryFilterValue(message: string, values: string[]): Promise<string | undefined> {
+  const result = await select({
+    message,
+    choices: [
+      { name: 'All', value: '' },
+      ...[...new Set(values)].sort().map(value => ({ name: value, value })),
+    ],
+    pageSize: 10,
+    loop: false,
+  }, {
+    clearPromptOnDone: true,
+  });
+
+  return result || undefined;
+}
+
+/**
+ * Page through recent notifications, optionally filtered by project or event
+ * @param entries - History entries, newest first
+ * @throws UserCancelledError if user cancels the operation
+ */
+export async function promptHistory(entries: HistoryEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    console.log('\n📜 No notifications recorded yet');
+    return;
+  }
+
+  const filter: HistoryFilter = {};
+  let page = 0;
+
+  try {
+    while (true) {
+      const matching = entries.filter(entry => matchesHistoryFilter(entry, filter));
+      const pageCount = Math.max(1, Math.ceil(matching.length / HISTORY_PAGE_SIZE));
+      page = Math.min(page, pageCount - 1);
+
+      const filterText = [filter.project && `project ${filter.project}`, filter.event && `event ${filter.event}`]
+        .filter(Boolean)
+        .join(', ');
+      const lines = matching
+        .slice(page * HISTORY_PAGE_SIZE, (page + 1) * HISTORY_PAGE_SIZE)
+        .map(entry => new Separator(`  ${formatHistoryEntry(entry)}`));
+
+      const action = await select({
+        message: `Notification history (page ${page + 1} of ${pageCount}${filterText ? `, ${filterText}` : ''})`,
+        choices: [
+          new Separator(),
+          ...(lines.length > 0 ? lines : [new Separator('  No notifications match the filter')]),
+          new Separator(),
+          ...(page < pageCount - 1 ? [{ name: '➡️  Older', value: 'next' }] : []),
+          ...(page > 0 ? [{ name: '⬅️  Newer', value: 'previous' }] : []),
+          { name: '📁 Filter by project', value: 'project' },
+          { name: '🔔 Filter by event', value: 'event' },
+          ...(filterText ? [{ name: '🧹 Clear filters', value: 'clear' }] : []),
+          { name: '🔙 Back', value: 'back' },
+        ],
+        pageSize: HISTORY_PAGE_SIZE + 10,
+        loop: false,
+      }, {
+        clearPromptOnDone: true,
+      });
+
+      switch (action) {
+        case 'next':
+          page++;
+          break;
+
+        case 'previous':
+          page--;
+          break;
+
+        case 'project':
+          filter.project = await promptHistoryFilterValue('Show notifications of project', entries.map(getHistoryProject));
+          page = 0;
+          break;
+
+        case 'event':
+          filter.event = await promptHistoryFilterValue('Show notifications of event', entries.map(entry => entry.event));
+          page = 0;
+          break;
+
+        case 'clear':
+          delete filter.project;
+          delete filter.event;
+          page = 0;
+          break;
+
+        default:
+          return;
+      }
+    }
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ExitPromptError') {
+      throw new UserCancelledError('History view cancelled');
+    }
+    throw error;
+  }
+}
@@ -127,6 +127,30 @@ export class Terminal {
     this.printHeader(title, config.separator, config.width);
   }
 
+  /**
+   * Print rows as a table with aligned columns
+   * @param headers - Column headings
+   * @param rows - Table cells, one array per row
+   * @param alignRight - Indexes of columns to right-align, such as numbers
+   */
+  static printTable(headers: string[], rows: string[][], alignRight: number[] = []): void {
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...rows.map(row => (row[column] ?? '').length))
+    );
+
+    const formatRow = (cells: string[]): string => widths
+      .map((width, column) => {
+        const cell = cells[column] ?? '';
+        return alignRight.includes(column) ? cell.padStart(width) : cell.padEnd(width);
+      })
+      .join('  ')
+      .trimEnd();
+
+    console.log(formatRow(headers));
+    console.log(widths.map(width => '─'.repeat(width)).join('  '));
+    rows.forEach(row => console.log(formatRow(row)));
+  }
+
   /**
    * Print a success message
    * @param message - The success message
@@ -0,0 +1,105 @@
+import { HookSelection } from '../types/index.js';
+
+/**
+ * Hook event that can show a notification, and how it is offered in the prompts
+ */
+export interface NotificationEventDefinition {
+  event: string;
+  label: string;
+  choiceLabel: string;
+  soundLabel: string;
+  selection: HookSelection;
+  soundSelection: HookSelection;
+  optIn: boolean;
+  companions: string[];
+}
+
+/**
+ * Sound selection key for permission prompts, which share the Notification hook
+ */
+export const PERMISSION_SOUND_KEY = 'Notification:permission';
+
+/**
+ * Notification events in display order; opt-in events are listed separately in the prompts
+ */
+export const NOTIFICATION_EVENT_DEFINITIONS: readonly NotificationEventDefinition[] = [
+  {
+    event: 'Notification',
+    label: 'Permission and input alerts',
+    choiceLabel: 'Notify when Claude needs permission or input',
+    soundLabel: 'attention',
+    selection: HookSelection.ON_NOTIFICATION,
+    soundSelection: HookSelection.ON_NOTIFICATION_SOUND,
+    optIn: false,
+    companions: [],
+  },
+  {
+    event: 'Stop',
+    label: 'Task stop notification',
+    choiceLabel: 'Notify on task stop',
+    soundLabel: 'stop',
+    selection: HookSelection.ON_STOP,
+    soundSelection: HookSelection.ON_STOP_SOUND,
+    optIn: false,
+    // Record when each run starts and forget the session when it ends, so Stop can report the duration
+    companions: ['UserPromptSubmit', 'SessionEnd'],
+  },
+  {
+    event: 'SubagentStop',
+    label: 'Subagent finished notification',
+    choiceLabel: 'Notify when a subagent finishes',
+    soundLabel: 'subagent',
+    selection: HookSelection.ON_SUBAGENT_STOP,
+    soundSelection: HookSelection.ON_SUBAGENT_STOP_SOUND,
+    optIn: true,
+    companions: [],
+  },
+  {
+    event: 'SessionStart',
+    label: 'Session start notification',
+    choiceLabel: 'Notify when a session starts or resumes',
+    soundLabel: 'session start',
+    selection: HookSelection.ON_SESSION_START,
+    soundSelection: HookSelection.ON_SESSION_START_SOUND,
+    optIn: true,
+    companions: [],
+  },
+  {
+    event: 'SessionEnd',
+    label: 'Session end notification',
+    choiceLabel: 'Notify when a session ends',
+    soundLabel: 'session end',
+    selection: HookSelection.ON_SESSION_END,
+    soundSelection: HookSelection.ON_SESSION_END_SOUND,
+    optIn: true,
+    companions: [],
+  },
+  {
+    event: 'PreCompact',
+    label: 'Context compaction notification',
+    choiceLabel: 'Notify before the context is compacted',
+    soundLabel: 'compaction',
+    selection: HookSelection.ON_PRE_COMPACT,
+    soundSelection: HookSelection.ON_PRE_COMPACT_SOUND,
+    optIn: true,
+    companions: [],
+  },
+];
+
+/**
+ * Get the definition of a notification event
+ * @param event - Claude Code hook event name
+ * @returns Event definition, or null if the event does not show notifications
+ */
+export function getEventDefinition(event: string): NotificationEventDefinition | null {
+  return NOTIFICATION_EVENT_DEFINITIONS.find(definition => definition.event === event) ?? null;
+}
+
+/**
+ * Get the display label of a notification event
+ * @param event - Claude Code hook event name
+ * @returns Label for prompts and the config view
+ */
+export function getEventLabel(event: string): string {
+  return getEventDefinition(event)?.label ?? `${event} notification`;
+}
@@ -0,0 +1,291 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import { homedir } from 'os';
+import { SettingsError } from '../utils/errors.js';
+import { validateMessageTemplate } from '../runtime/template.js';
+import { validateQuietHours } from '../runtime/schedule.js';
+import { validateRateLimit } from '../runtime/ratelimit.js';
+import { validateToolRules } from '../runtime/rules.js';
+import { validateFailureAlerts } from '../runtime/failure.js';
+import { validateChannels } from '../channels/index.js';
+import { NotifierConfigData, SettingsOperation } from '../types/index.js';
+
+/**
+ * Manages the notifier's own configuration file
+ */
+export class NotifierConfig {
+  private readonly path: string;
+  private data: NotifierConfigData | null = null;
+  private _loaded = false;
+
+  constructor(configPath?: string) {
+    this.path = configPath ?? path.join(NotifierConfig.getDefaultDirectory(), 'config.json');
+  }
+
+  /**
+   * Get the directory holding the notifier configuration and state files
+   * @returns Path to the notifier directory
+   */
+  static getDefaultDirectory(): string {
+    return path.join(homedir(), '.claude', 'task-notifier');
+  }
+
+  /**
+   * Load configuration from file
+   * @returns The loaded configuration data
+   * @throws SettingsError if loading fails
+   */
+  async load(): Promise<NotifierConfigData> {
+    try {
+      if (existsSync(this.path)) {
+        const content = readFileSync(this.path, 'utf-8');
+
+        if (!content.trim()) {
+          this.data = {};
+        } else {
+          try {
+            this.data = JSON.parse(content) as NotifierConfigData;
+          } catch (parseError) {
+            const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+            throw new SettingsError(
+              `Invalid JSON in notifier config file: ${errorMessage}`,
+              SettingsOperation.PARSE,
+              this.path,
+              { parseError: errorMessage }
+            );
+          }
+        }
+      } else {
+        this.data = {};
+      }
+
+      this._validateConfig(this.data);
+      this._loaded = true;
+      return this.data;
+    } catch (error) {
+      if (error instanceof SettingsError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to read notifier config file: ${errorMessage}`,
+        SettingsOperation.READ,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+
+  /**
+   * Save configuration to file
+   * @throws SettingsError if saving fails
+   */
+  async save(): Promise<void> {
+    if (!this._loaded || this.data === null) {
+      throw new SettingsError(
+        'No data to save. Load the notifier config first.',
+        SettingsOperation.WRITE,
+        this.path
+      );
+    }
+
+    try {
+      this._validateConfig(this.data);
+
+      const dir = path.dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      writeFileSync(this.path, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (error) {
+      if (error instanceof SettingsError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to write notifier config file: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+
+  /**
+   * Get current configuration data
+   * @returns Current configuration data
+   * @throws SettingsError if configuration not loaded
+   */
+  getData(): NotifierConfigData {
+    if (!this._loaded) {
+      throw new SettingsError(
+        'Notifier config not loaded. Call load() first.',
+        SettingsOperation.GET_DATA,
+        this.path
+      );
+    }
+    return this.data!;
+  }
+
+  /**
+   * Apply changes to the configuration (call save() to persist them)
+   * @param changes - Fields to set; undefined values remove the field
+   */
+  async update(changes: { [K in keyof NotifierConfigData]?: NotifierConfigData[K] | undefined }): Promise<void> {
+    if (!this._loaded) {
+      await this.load();
+    }
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) {
+        delete this.data![key];
+      } else {
+        this.data![key] = value;
+      }
+    }
+
+    this._validateConfig(this.data!);
+  }
+
+  /**
+   * Get the configuration file path
+   * @returns Path to configuration file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Validate configuration data structure
+   * @param data - Configuration data to validate
+   * @throws SettingsError if validation fails
+   * @private
+   */
+  private _validateConfig(data: NotifierConfigData): void {
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new SettingsError(
+        'Notifier config must be an object',
+        SettingsOperation.VALIDATE,
+        this.path,
+        { data }
+      );
+    }
+
+    if (data.platforms !== undefined) {
+      if (!Array.isArray(data.platforms) || data.platforms.some(spec => typeof spec !== 'string' || !spec.trim())) {
+        throw new SettingsError(
+          'platforms must be an array of module paths or package names',
+          SettingsOperation.VALIDATE,
+          this.path,
+          { platforms: data.platforms }
+        );
+      }
+    }
+
+    if (data.preferredPlatform !== undefined && typeof data.preferredPlatform !== 'string') {
+      throw new SettingsError(
+        'preferredPlatform must be a platform identifier',
+        SettingsOperation.VALIDATE,
+        this.path,
+        { preferredPlatform: data.preferredPlatform }
+      );
+    }
+
+    if (data.minDurationSeconds !== undefined) {
+      if (typeof data.minDurationSeconds !== 'number' || !Number.isFinite(data.minDurationSeconds) || data.minDurationSeconds < 0) {
+        throw new SettingsError(
+          'minDurationSeconds must be a non-negative number of seconds',
+          SettingsOperation.VALIDATE,
+          this.path,
+          { minDurationSeconds: data.minDurationSeconds }
+        );
+      }
+    }
+
+    if (data.quietHours !== undefined) {
+      const validation = validateQuietHours(data.quietHours);
+      if (!validation.isValid) {
+        throw new SettingsError(
+          `Invalid quietHours: ${validation.errors.join('; ')}`,
+          SettingsOperation.VALIDATE,
+          this.path,
+          { quietHours: data.quietHours }
+        );
+      }
+    }
+
+    if (data.rateLimit !== undefined) {
+      const validation = validateRateLimit(data.rateLimit);
+      if (!validation.isValid) {
+        throw new SettingsError(
+          `Invalid rateLimit: ${validation.errors.join('; ')}`,
+          SettingsOperation.VALIDATE,
+          this.path,
+          { rateLimit: data.rateLimit }
+        );
+      }
+    }
+
+    if (data.toolRules !== undefined) {
+      const validation = validateToolRules(data.toolRules);
+      if (!validation.isValid) {
+        throw new SettingsError(
+          `Invalid toolRules: ${validation.errors.join('; ')}`,
+          SettingsOperation.VALIDATE,
+          this.path,
+          { toolRules: data.toolRules }
+        );
+      }
+    }
+
+    if (data.failureAlerts !== undefined) {
+      const validation = validateFailureAlerts(data.failureAlerts);
+      if (!validation.isValid) {
+        throw new SettingsError(
+          `Invalid failureAlerts: ${validation.errors.join('; ')}`,
+          SettingsOperation.VALIDATE,
+          this.path,
+          { failureAlerts: data.failureAlerts }
+        );
+      }
+    }
+
+    if (data.channels !== undefined) {
+      const validation = validateChannels(data.channels);
+      if (!validation.isValid) {
+        throw new SettingsError(
+          `Invalid channels: ${validation.errors.join('; ')}`,
+          SettingsOperation.VALIDATE,
+          this.path,
+          { channels: validation.errors }
+        );
+      }
+    }
+
+    if (data.templates !== undefined) {
+      if (data.templates === null || typeof data.templates !== 'object' || Array.isArray(data.templates)) {
+        throw new SettingsError(
+          'templates must be an object keyed by hook event',
+          SettingsOperation.VALIDATE,
+          this.path,
+          { templates: data.templates }
+        );
+      }
+
+      for (const [event, template] of Object.entries(data.templates)) {
+        const validation = validateMessageTemplate(template);
+        if (!validation.isValid) {
+          throw new SettingsError(
+            `Invalid template for '${event}': ${validation.errors.join('; ')}`,
+            SettingsOperation.VALIDATE,
+            this.path,
+            { event, template }
+          );
+        }
+      }
+    }
+  }
+}
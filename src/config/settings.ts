@@ -2,13 +2,17 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import path from 'path';
 import { homedir } from 'os';
 import { SettingsError } from '../utils/errors.js';
-import { getCurrentPlatform, isSoundSupported } from '../platforms/index.js';
+import { PlatformRegistry, getPlatformCapabilities, detectSoundInCommand } from '../platforms/index.js';
+import { getNotifierHookKey, parseNotifyHookCommand } from '../runtime/command.js';
+import { NOTIFICATION_EVENT_DEFINITIONS, getEventDefinition } from './events.js';
 import {
   ClaudeSettingsData,
+  NotifierConfigData,
   ClaudeHooks,
+  ClaudeHookGroup,
   SettingsOperation,
   ConfigurationStatus,
-  Platform,
+  EventStatus,
 } from '../types/index.js';
 
 /**
@@ -192,6 +196,15 @@ export class ClaudeSettings {
               { hookName, hookItem }
             );
           }
+
+          if (hookItem.matcher !== undefined && typeof hookItem.matcher !== 'string') {
+            throw new SettingsError(
+              `Hook '${hookName}' matcher must be a string`,
+              SettingsOperation.VALIDATE,
+              this.path,
+              { hookName, matcher: hookItem.matcher }
+            );
+          }
         }
       }
     }
@@ -221,8 +234,15 @@ export class ClaudeSettings {
       this.data!.hooks = {};
     }
 
-    // Merge new hooks
-    this.data!.hooks = { ...this.data!.hooks, ...newHooks };
+    // Replace the notifier's groups for the same commands and keep every other hook on the event
+    for (const [hookName, groups] of Object.entries(newHooks)) {
+      const replacedKeys = new Set((groups ?? []).flatMap(group => this._getNotifierKeys(group, hookName)));
+      const existing = this.data!.hooks[hookName] ?? [];
+      this.data!.hooks[hookName] = [
+        ...existing.filter(group => !this._getNotifierKeys(group, hookName).some(key => replacedKeys.has(key))),
+        ...(groups ?? []),
+      ];
+    }
 
     // Validate the merged result
     this._validateSettings(this.data!);
@@ -277,8 +297,8 @@ export class ClaudeSettings {
   }
 
   /**
-   * Remove specific hooks from settings
-   * @param hookNames - Array of hook names to remove
+   * Remove notification hooks and their companion hooks from settings
+   * @param hookNames - Array of notification hook names to remove
    */
   async removeHooks(hookNames: string[]): Promise<void> {
     if (!this._loaded) {
@@ -299,10 +319,16 @@ export class ClaudeSettings {
       return;
     }
 
-    // Remove specified hooks
+    // Remove the notifier's groups for every event of each feature, leaving other hooks alone
     for (const hookName of hookNames) {
-      if (this.data!.hooks[hookName]) {
-        delete this.data!.hooks[hookName];
+      const companions = getEventDefinition(hookName)?.companions ?? [];
+      const features: [string, string][] = [
+        [hookName, `notify:${hookName}`],
+        ...companions.map((eventName): [string, string] => [eventName, `track:${eventName}`]),
+      ];
+
+      for (const [eventName, key] of features) {
+        this._removeNotifierGroups(eventName, key);
       }
     }
 
@@ -314,6 +340,29 @@ export class ClaudeSettings {
     this._validateSettings(this.data!);
   }
 
+  /**
+   * Remove the notifier's hook groups with a given key from one event
+   * @param hookName - Event to remove the groups from
+   * @param key - Notifier hook key, e.g. 'notify:PostToolUse:failures'
+   */
+  async removeNotifierHook(hookName: string, key: string): Promise<void> {
+    if (!this._loaded) {
+      await this.load();
+    }
+
+    if (!this.data!.hooks) {
+      return;
+    }
+
+    this._removeNotifierGroups(hookName, key);
+
+    if (Object.keys(this.data!.hooks).length === 0) {
+      delete this.data!.hooks;
+    }
+
+    this._validateSettings(this.data!);
+  }
+
   /**
    * Remove all hooks from settings
    */
@@ -375,118 +424,171 @@ export class ClaudeSettings {
     return this.data!.hooks ? hookName in this.data!.hooks : false;
   }
 
+  /**
+   * Get the notification features installed by this tool
+   * @returns Names of the notification hooks that are installed
+   */
+  getInstalledFeatures(): string[] {
+    if (!this._loaded) {
+      throw new SettingsError(
+        'Settings not loaded. Call load() first.',
+        SettingsOperation.GET_HOOKS,
+        this.path
+      );
+    }
+    return NOTIFICATION_EVENT_DEFINITIONS
+      .map(definition => definition.event)
+      .filter(hookName => this._hasNotifierHook(hookName, `notify:${hookName}`));
+  }
+
   /**
    * Analyze current configuration and return status
+   * @param notifierData - Notifier configuration data
    * @returns Configuration status information
    */
-  async analyzeConfiguration(): Promise<ConfigurationStatus> {
+  async analyzeConfiguration(notifierData: NotifierConfigData = {}): Promise<ConfigurationStatus> {
     if (!this._loaded) {
       await this.load();
     }
 
-    const installedHooks = this.getInstalledHookNames();
+    const installedHooks = this.getInstalledFeatures();
     const hasHooks = installedHooks.length > 0;
 
-    // Analyze notification hook
-    const notifications = {
-      enabled: this.hasHook('Notification'),
-      hasSound: false,
-    };
-
-    if (notifications.enabled) {
-      notifications.hasSound = this._detectSoundInHook('Notification');
+    // Analyze each notification event
+    const events: Record<string, EventStatus> = {};
+    for (const { event } of NOTIFICATION_EVENT_DEFINITIONS) {
+      const enabled = installedHooks.includes(event);
+      events[event] = {
+        enabled,
+        sound: enabled ? this._detectSoundInHook(event) : null,
+      };
     }
 
-    // Analyze stop hook
-    const stop = {
-      enabled: this.hasHook('Stop'),
-      hasSound: false,
-    };
+    // Permission prompts share the Notification hook but may play their own sound
+    if (events['Notification']?.enabled) {
+      events['Notification'].permissionSound = this._detectSoundInHook('Notification', true);
+    }
 
-    if (stop.enabled) {
-      stop.hasSound = this._detectSoundInHook('Stop');
+    if (events['Stop']) {
+      events['Stop'].tracksDuration = events['Stop'].enabled && this._hasNotifierHook('UserPromptSubmit', 'track:UserPromptSubmit');
+      events['Stop'].minDurationSeconds = notifierData.minDurationSeconds ?? 0;
     }
 
     // Get platform information
-    let platformName = 'Unknown';
-    let soundSupported = false;
-
-    try {
-      const currentPlatform = getCurrentPlatform();
-      soundSupported = isSoundSupported();
-
-      switch (currentPlatform) {
-        case Platform.MACOS:
-          platformName = 'macOS';
-          break;
-        case Platform.WINDOWS:
-          platformName = 'Windows';
-          break;
-        default:
-          platformName = 'Unknown';
-      }
-    } catch {
-      // Platform detection failed, keep defaults
-    }
+    const capabilities = getPlatformCapabilities();
 
     return {
       hasHooks,
       installedHooks,
-      notifications,
-      stop,
+      events,
       platform: {
-        name: platformName,
-        soundSupported,
+        name: capabilities?.displayName ?? 'Unknown',
+        soundSupported: capabilities?.sound ?? false,
+        capabilities,
+        preferred: PlatformRegistry.getPreferredPlatform(),
       },
+      quietHours: notifierData.quietHours ?? null,
+      toolRules: notifierData.toolRules ?? [],
+      failureAlerts: notifierData.failureAlerts ?? null,
+      channels: notifierData.channels ?? [],
       settingsPath: this.path,
     };
   }
 
   /**
-   * Detect if a specific hook has sound functionality
+   * Detect which sound a specific hook plays
    * @param hookName - Name of the hook to check
-   * @returns True if hook contains sound commands
+   * @param permission - Detect the sound played for permission prompts instead
+   * @returns Sound name, or null if the hook is silent
    * @private
    */
-  private _detectSoundInHook(hookName: string): boolean {
+  private _detectSoundInHook(hookName: string, permission = false): string | null {
     if (!this.data!.hooks || !this.data!.hooks[hookName]) {
-      return false;
+      return null;
     }
 
     const hookGroups = this.data!.hooks[hookName];
     if (!hookGroups || hookGroups.length === 0) {
-      return false;
+      return null;
     }
 
-    // Check all hooks in all groups for sound indicators
+    // Check the notifier's own hooks for sound indicators
     for (const group of hookGroups) {
-      if (group.hooks) {
+      if (group.hooks && this._getNotifierKeys(group, hookName).includes(`notify:${hookName}`)) {
         for (const hook of group.hooks) {
-          if (hook.command && this._containsSoundCommand(hook.command)) {
-            return true;
+          const sound = hook.command ? this._detectSoundInCommand(hook.command, permission) : null;
+          if (sound) {
+            return sound;
           }
         }
       }
     }
 
-    return false;
+    return null;
   }
 
   /**
-   * Check if a command contains sound functionality
+   * Detect which sound a hook command plays
    * @param command - Command string to check
-   * @returns True if command contains sound
+   * @param permission - Detect the sound played for permission prompts instead
+   * @returns Sound name, or null if the command is silent
+   * @private
+   */
+  private _detectSoundInCommand(command: string, permission = false): string | null {
+    const notifyCommand = parseNotifyHookCommand(command);
+    if (notifyCommand) {
+      return permission ? notifyCommand.permissionSound : notifyCommand.sound;
+    }
+
+    // Hooks installed by older versions embed the platform command directly
+    return detectSoundInCommand(command);
+  }
+
+  /**
+   * Check if an event has a specific hook installed by this tool
+   * @param hookName - Name of the hook event
+   * @param key - Notifier hook key (e.g., 'notify:Stop')
+   * @returns True if the notifier hook is installed for the event
+   * @private
+   */
+  private _hasNotifierHook(hookName: string, key: string): boolean {
+    return (this.data!.hooks?.[hookName] ?? []).some(group => this._getNotifierKeys(group, hookName).includes(key));
+  }
+
+  /**
+   * Remove the notifier's groups with a given key from an event, dropping the event if it is left empty
+   * @param hookName - Name of the hook event
+   * @param key - Notifier hook key (e.g., 'track:SessionEnd')
    * @private
    */
-  private _containsSoundCommand(command: string): boolean {
-    // Check for macOS sound patterns
-    if (command.includes('sound name') || command.includes('with sound')) {
-      return true;
+  private _removeNotifierGroups(hookName: string, key: string): void {
+    const groups = this.data!.hooks?.[hookName];
+    if (!groups) {
+      return;
+    }
+
+    const remaining = groups.filter(group => !this._getNotifierKeys(group, hookName).includes(key));
+    if (remaining.length > 0) {
+      this.data!.hooks![hookName] = remaining;
+    } else {
+      delete this.data!.hooks![hookName];
     }
+  }
 
-    // Add patterns for other platforms if needed in the future
-    // Windows currently doesn't support sound
+  /**
+   * Identify the notifier commands in a hook group
+   * @param group - Hook group from settings
+   * @param hookName - Event the group is installed under
+   * @returns Notifier hook keys of its commands (empty for hooks of other tools)
+   * @private
+   */
+  private _getNotifierKeys(group: ClaudeHookGroup, hookName: string): string[] {
+    if (!Array.isArray(group?.hooks)) {
+      return [];
+    }
 
-    return false;
+    return group.hooks
+      .map(hook => typeof hook?.command === 'string' ? getNotifierHookKey(hook.command, hookName) : null)
+      .filter((key): key is string => key !== null);
   }
-}
\ No newline at end of file
+}
@@ -4,6 +4,12 @@ import { Terminal } from './cli/terminal.js';
 import { select } from '@inquirer/prompts';
 import {
   promptHookSelection,
+  promptSoundSelection,
+  promptTemplateCustomization,
+  promptMinDuration,
+  promptWebhookChannel,
+  promptChatChannels,
+  promptPushChannels,
   promptConfirmation,
   validateHookSelection,
   parseHookSelection,
@@ -11,20 +17,48 @@ import {
   displayConfiguration,
   promptRemovalSelection,
   promptRemovalConfirmation,
+  promptPlatformSelection,
+  promptQuietHours,
+  promptToolRules,
+  promptFailureAlerts,
+  promptHistory,
+  promptTestChannels,
+  MAIN_MENU_LABELS,
 } from './cli/prompts.js';
+import path from 'path';
 import { ClaudeSettings } from './config/settings.js';
-import { createNotificationCommand, isNotificationSupported } from './platforms/index.js';
+import { NotifierConfig } from './config/notifier.js';
+import { PlatformRegistry, isNotificationSupported } from './platforms/index.js';
+import { loadConfiguredPlatforms } from './platforms/loader.js';
+import { runDeliverBurst, runNotify } from './runtime/notify.js';
+import { DELIVER_BURST_COMMAND } from './runtime/ratelimit.js';
+import { runTrack } from './runtime/track.js';
+import { computeUsageStats, printUsageStats, runStats } from './runtime/stats.js';
+import { createNotifyHookCommand, createTrackHookCommand, isHookRunThroughNpx, DEFAULT_SOUND } from './runtime/command.js';
+import { getEventDefinition, getEventLabel } from './config/events.js';
+import { generateToolRuleHooks } from './runtime/rules.js';
+import { generateFailureAlertHooks } from './runtime/failure.js';
+import { NotificationHistory } from './runtime/history.js';
+import { validateMessageTemplate } from './runtime/template.js';
+import { createChannel, createTestChannelMessage, isChatChannel, isPushChannel } from './channels/index.js';
 import { handleError, UserCancelledError, UnsupportedPlatformError, InvalidInputError } from './utils/errors.js';
 import {
   HookConfiguration,
   ClaudeHooks,
   ClaudeHookGroup,
   HookType,
-  HookAction,
   ConfirmationAction,
+  HookSelection,
   MainMenuAction,
+  ChannelType,
+  WebhookChannelConfig,
 } from './types/index.js';
 
+/**
+ * Number of recent notifications loaded into the history screen
+ */
+const HISTORY_VIEW_LIMIT = 500;
+
 /**
  * Main application function
  */
@@ -34,6 +68,9 @@ async function main(): Promise<void> {
     Terminal.setup();
     Terminal.printHeader('Claude Code Task Notifier');
 
+    // Load third-party platforms and the preferred platform
+    await initializePlatforms();
+
     // Check platform support
     if (!isNotificationSupported()) {
       throw new UnsupportedPlatformError();
@@ -49,10 +86,38 @@ async function main(): Promise<void> {
             await handleViewConfiguration();
             break;
 
+          case MainMenuAction.QUIET_HOURS:
+            await handleQuietHours();
+            break;
+
+          case MainMenuAction.TOOL_RULES:
+            await handleToolRules();
+            break;
+
+          case MainMenuAction.FAILURE_ALERTS:
+            await handleFailureAlerts();
+            break;
+
+          case MainMenuAction.HISTORY:
+            await handleHistory();
+            break;
+
+          case MainMenuAction.STATS:
+            await handleStats();
+            break;
+
+          case MainMenuAction.TEST_PUSH:
+            await handleTestPush();
+            break;
+
           case MainMenuAction.INSTALL_MODIFY:
             await handleInstallModify();
             break;
 
+          case MainMenuAction.SELECT_PLATFORM:
+            await handleSelectPlatform();
+            break;
+
           case MainMenuAction.REMOVE:
             await handleRemove();
             break;
@@ -105,6 +170,19 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Register platforms declared in the notifier config
+ */
+async function initializePlatforms(): Promise<void> {
+  const notifierConfig = new NotifierConfig();
+  const data = await notifierConfig.load();
+  const errors = await loadConfiguredPlatforms(data, path.dirname(notifierConfig.getPath()));
+
+  for (const error of errors) {
+    Terminal.printWarning(error.message);
+  }
+}
+
 /**
  * Handle view configuration action
  */
@@ -113,7 +191,8 @@ async function handleViewConfiguration(): Promise<void> {
   Terminal.printHeader('Claude Code Task Notifier');
 
   const settings = new ClaudeSettings();
-  const config = await settings.analyzeConfiguration();
+  const notifierData = await new NotifierConfig().load();
+  const config = await settings.analyzeConfiguration(notifierData);
   displayConfiguration(config);
 }
 
@@ -133,15 +212,56 @@ async function handleInstallModify(): Promise<void> {
     throw new InvalidInputError(validation.errors.join('; '));
   }
 
+  // Choose sounds for notifications that play one
+  const sounds = await promptSoundSelection(selectedHooks);
+
+  // Optionally customize the notification text
+  const notifierConfig = new NotifierConfig();
+  const notifierData = await notifierConfig.load();
+  const templates = await promptTemplateCustomization(selectedHooks, notifierData.templates);
+
+  // Skip stop notifications for quick runs
+  const minDurationSeconds = selectedHooks.includes(HookSelection.ON_STOP)
+    ? await promptMinDuration(notifierData.minDurationSeconds ?? 0)
+    : null;
+
+  // Optionally forward notifications to a webhook and team chat
+  const currentChannels = notifierData.channels ?? [];
+  const currentWebhook = currentChannels.find(
+    (channel): channel is WebhookChannelConfig => channel.type === ChannelType.WEBHOOK
+  ) ?? null;
+  const webhook = await promptWebhookChannel(currentWebhook);
+  const chatChannels = await promptChatChannels(currentChannels.filter(isChatChannel));
+  const pushChannels = await promptPushChannels(currentChannels.filter(isPushChannel));
+
+  // Replace the first webhook and the preset channels, and keep any other channels as they are
+  const channels = [
+    ...(webhook ? [webhook] : []),
+    ...currentChannels.filter(channel => channel !== currentWebhook && !isChatChannel(channel) && !isPushChannel(channel)),
+    ...chatChannels,
+    ...pushChannels,
+  ];
+  const channelsChanged = JSON.stringify(channels) !== JSON.stringify(currentChannels);
+
   // Show confirmation
-  const action = await promptConfirmation(selectedHooks);
+  const action = await promptConfirmation(selectedHooks, sounds);
 
   if (action === ConfirmationAction.EXIT) {
     throw new UserCancelledError('Installation cancelled');
   }
 
+  // Reject templates with unknown placeholders before anything is written
+  if (templates) {
+    for (const [event, template] of Object.entries(templates)) {
+      const templateValidation = validateMessageTemplate(template);
+      if (!templateValidation.isValid) {
+        throw new InvalidInputError(`Invalid ${event} template: ${templateValidation.errors.join('; ')}`);
+      }
+    }
+  }
+
   // Parse hook configuration
-  const config = parseHookSelection(selectedHooks);
+  const config = parseHookSelection(selectedHooks, sounds);
 
   // Generate hooks
   const newHooks = await generateHooks(config);
@@ -150,10 +270,172 @@ async function handleInstallModify(): Promise<void> {
   console.log('');
   await saveHooksToSettings(newHooks);
 
+  if (templates || minDurationSeconds !== null || channelsChanged) {
+    if (templates) {
+      await notifierConfig.update({ templates });
+    }
+    if (minDurationSeconds !== null) {
+      await notifierConfig.update({ minDurationSeconds: minDurationSeconds > 0 ? minDurationSeconds : undefined });
+    }
+    if (channelsChanged) {
+      await notifierConfig.update({ channels: channels.length > 0 ? channels : undefined });
+    }
+    await notifierConfig.save();
+  }
+
   Terminal.printSuccess('Hooks installed successfully!');
   console.log('');
 }
 
+/**
+ * Handle platform selection action
+ */
+async function handleSelectPlatform(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const platforms = [...PlatformRegistry.getAllPlatforms().values()];
+  const preferred = await promptPlatformSelection(platforms, PlatformRegistry.getPreferredPlatform());
+
+  const notifierConfig = new NotifierConfig();
+  await notifierConfig.update({ preferredPlatform: preferred ?? undefined });
+  await notifierConfig.save();
+
+  PlatformRegistry.setPreferredPlatform(preferred);
+
+  const platformName = preferred ? PlatformRegistry.getPlatform(preferred)?.capabilities.displayName : null;
+  Terminal.printSuccess(platformName ? `Notifications will use ${platformName}` : 'Platform will be detected automatically');
+}
+
+/**
+ * Handle quiet hours action
+ */
+async function handleQuietHours(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const notifierConfig = new NotifierConfig();
+  const data = await notifierConfig.load();
+
+  const quietHours = await promptQuietHours(data.quietHours ?? null);
+
+  await notifierConfig.update({ quietHours: quietHours ?? undefined });
+  await notifierConfig.save();
+
+  Terminal.printSuccess(quietHours ? 'Quiet hours saved' : 'Quiet hours turned off');
+}
+
+/**
+ * Handle tool rules action
+ */
+async function handleToolRules(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const notifierConfig = new NotifierConfig();
+  const data = await notifierConfig.load();
+
+  const toolRules = await promptToolRules(data.toolRules ?? []);
+
+  await notifierConfig.update({ toolRules: toolRules.length > 0 ? toolRules : undefined });
+  await notifierConfig.save();
+
+  // Replace the notifier's tool hooks; events left without rules lose theirs
+  const settings = new ClaudeSettings();
+  await settings.load();
+
+  const hooks = generateToolRuleHooks(toolRules);
+  const emptyEvents = Object.keys(hooks).filter(event => hooks[event]!.length === 0);
+  for (const event of emptyEvents) {
+    delete hooks[event];
+  }
+
+  await settings.removeHooks(emptyEvents);
+  await settings.mergeHooks(hooks);
+  await settings.save();
+
+  Terminal.printSuccess(`Saved ${toolRules.length} tool rule(s)`);
+}
+
+/**
+ * Handle failure alerts action
+ */
+async function handleFailureAlerts(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const notifierConfig = new NotifierConfig();
+  const data = await notifierConfig.load();
+
+  const failureAlerts = await promptFailureAlerts(data.failureAlerts ?? null);
+
+  await notifierConfig.update({ failureAlerts: failureAlerts ?? undefined });
+  await notifierConfig.save();
+
+  const settings = new ClaudeSettings();
+  await settings.load();
+
+  if (failureAlerts) {
+    await settings.mergeHooks(generateFailureAlertHooks(failureAlerts));
+  } else {
+    await settings.removeNotifierHook('PostToolUse', 'notify:PostToolUse:failures');
+  }
+  await settings.save();
+
+  Terminal.printSuccess(failureAlerts ? 'Failure alerts saved' : 'Failure alerts turned off');
+}
+
+/**
+ * Handle history action
+ */
+async function handleHistory(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const entries = await new NotificationHistory().readRecent(HISTORY_VIEW_LIMIT);
+  await promptHistory(entries);
+}
+
+/**
+ * Handle statistics action
+ */
+async function handleStats(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const entries = await new NotificationHistory().readRecent();
+  printUsageStats(computeUsageStats(entries));
+}
+
+/**
+ * Handle test push action
+ */
+async function handleTestPush(): Promise<void> {
+  Terminal.clearScreen();
+  Terminal.printHeader('Claude Code Task Notifier');
+
+  const data = await new NotifierConfig().load();
+  const channels = data.channels ?? [];
+
+  if (channels.length === 0) {
+    Terminal.printInfo(`No channels are configured. Add ntfy, Gotify or another channel with ${MAIN_MENU_LABELS[MainMenuAction.INSTALL_MODIFY]} in the main menu.`);
+    return;
+  }
+
+  const selected = await promptTestChannels(channels);
+  const message = createTestChannelMessage();
+
+  for (const config of selected) {
+    const channel = createChannel(config);
+    try {
+      await channel.send(message);
+      Terminal.printSuccess(`Sent a test notification to ${channel.describe()}`);
+    } catch (error) {
+      Terminal.printError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
 /**
  * Handle remove action
  */
@@ -164,7 +446,7 @@ async function handleRemove(): Promise<void> {
   const settings = new ClaudeSettings();
   await settings.load();
 
-  const installedHooks = settings.getInstalledHookNames();
+  const installedHooks = settings.getInstalledFeatures();
   if (installedHooks.length === 0) {
     Terminal.printInfo('No hooks are currently installed');
     return;
@@ -198,43 +480,37 @@ async function handleRemove(): Promise<void> {
 async function generateHooks(config: HookConfiguration): Promise<ClaudeHooks> {
   const newHooks: ClaudeHooks = {};
 
-  if (config.notificationEnabled) {
-    try {
-      const command = createNotificationCommand(HookAction.COMPLETED, config.notificationWithSound);
-
-      const hookGroup: ClaudeHookGroup = {
-        hooks: [
-          {
-            type: HookType.COMMAND,
-            command: command,
-          },
-        ],
-      };
-
-      newHooks.Notification = [hookGroup];
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to create notification hook: ${errorMessage}`);
+  const addHook = (eventName: string, command: string): void => {
+    const hookGroup: ClaudeHookGroup = {
+      hooks: [
+        {
+          type: HookType.COMMAND,
+          command: command,
+        },
+      ],
+    };
+
+    // Several features may hook the same event, e.g. SessionEnd notifications and duration tracking
+    newHooks[eventName] = [...(newHooks[eventName] ?? []), hookGroup];
+  };
+
+  for (const [eventName, eventConfig] of Object.entries(config)) {
+    if (!eventConfig.enabled) {
+      continue;
     }
-  }
 
-  if (config.stopEnabled) {
     try {
-      const command = createNotificationCommand(HookAction.STOPPED, config.stopWithSound);
-
-      const hookGroup: ClaudeHookGroup = {
-        hooks: [
-          {
-            type: HookType.COMMAND,
-            command: command,
-          },
-        ],
-      };
-
-      newHooks.Stop = [hookGroup];
+      const sound = eventConfig.withSound ? eventConfig.sound ?? DEFAULT_SOUND : null;
+      const permissionSound = eventConfig.withSound ? eventConfig.permissionSound ?? null : null;
+      addHook(eventName, createNotifyHookCommand(eventName, sound, permissionSound));
+
+      // Companion hooks record when each run starts so the stop notification can report its duration
+      for (const companion of getEventDefinition(eventName)?.companions ?? []) {
+        addHook(companion, createTrackHookCommand(companion));
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to create stop hook: ${errorMessage}`);
+      throw new Error(`Failed to create ${getEventLabel(eventName).toLowerCase()} hook: ${errorMessage}`);
     }
   }
 
@@ -258,10 +534,28 @@ async function saveHooksToSettings(newHooks: ClaudeHooks): Promise<void> {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to save settings: ${errorMessage}`);
   }
+
+  // Hooks run on every prompt, so starting them through npx slows down each one
+  if (isHookRunThroughNpx()) {
+    Terminal.printWarning(
+      'Hooks run through npx, which adds a delay to every prompt and notification. '
+      + 'For faster hooks, run `npm install -g claude-code-task-notifier` and install the notifications again.'
+    );
+  }
 }
 
-// Run the application
-main().catch((error: Error) => {
-  console.error('Unhandled error in main application:', error);
-  process.exit(1);
-});
+// Run the hook runtime when invoked as `claude-code-task-notifier notify|track|stats`, else the interactive CLI
+if (process.argv[2] === 'notify') {
+  runNotify(process.argv.slice(3)).then((code) => process.exit(code));
+} else if (process.argv[2] === 'track') {
+  runTrack(process.argv.slice(3)).then((code) => process.exit(code));
+} else if (process.argv[2] === 'stats') {
+  runStats(process.argv.slice(3)).then((code) => process.exit(code));
+} else if (process.argv[2] === DELIVER_BURST_COMMAND) {
+  runDeliverBurst(process.argv.slice(3)).then((code) => process.exit(code));
+} else {
+  main().catch((error: Error) => {
+    console.error('Unhandled error in main application:', error);
+    process.exit(1);
+  });
+}
@@ -1,32 +1,129 @@
-import { Platform, HookAction } from '../types/index.js';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { isLaunchingTerminal } from './focus.js';
+import { Platform, NotificationContent, PlatformCapabilities, FocusProbe } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Maximum time a notification command may run before it is killed
+ */
+const SEND_TIMEOUT_MS = 15000;
 
 /**
  * Abstract base class for notification platforms
  */
 export abstract class NotificationPlatform {
+  /**
+   * Platform identifier (a Platform value for built-in platforms)
+   */
+  abstract readonly id: Platform | string;
+
+  /**
+   * Features this platform can deliver, used to drive the prompts and the config view
+   */
+  abstract readonly capabilities: PlatformCapabilities;
+
+  /**
+   * Looks up the focused window, or null if this platform cannot tell
+   */
+  focusProbe: FocusProbe | null = null;
+
   /**
    * Check if this platform is supported on the current system
    * @returns True if platform is supported
    */
-  static isSupported(): boolean {
-    throw new Error('isSupported() must be implemented by subclass');
+  abstract isSupported(): boolean;
+
+  /**
+   * Create a shell command that shows the given notification
+   * @param content - Notification title, message and sound
+   * @returns The command to execute
+   */
+  abstract createCommand(content: NotificationContent): string;
+
+  /**
+   * Show a notification by running the command created for it
+   * @param content - Notification title, message and sound
+   * @throws Error if the command fails or times out
+   */
+  async send(content: NotificationContent): Promise<void> {
+    await execAsync(this.createCommand(content), { timeout: SEND_TIMEOUT_MS, windowsHide: true });
   }
 
   /**
-   * Get the platform identifier
-   * @returns Platform identifier
+   * Check whether notifications are written to the terminal of the hook process
+   * @returns True if only a process attached to that terminal can deliver them
    */
-  static getPlatformId(): Platform {
-    throw new Error('getPlatformId() must be implemented by subclass');
+  needsTerminal(): boolean {
+    return false;
   }
 
   /**
-   * Create a notification command for the given action
-   * @param action - The action that occurred (e.g., 'Completed', 'Stopped')
-   * @param withSound - Whether to include sound in the notification
-   * @returns The command to execute
+   * Check whether the terminal running Claude Code is the focused window
+   * @returns True if the user is already looking at the terminal
    */
-  static createCommand(_action: HookAction | string, _withSound = false): string {
-    throw new Error('createCommand() must be implemented by subclass');
+  async isTerminalFocused(): Promise<boolean> {
+    if (!this.focusProbe) {
+      return false;
+    }
+
+    try {
+      const window = await this.focusProbe();
+      return window !== null && isLaunchingTerminal(window);
+    } catch {
+      // A failed lookup must never swallow the notification
+      return false;
+    }
+  }
+
+  /**
+   * List the notification sounds available on this platform
+   * @returns Sound names that can be passed to createCommand()
+   */
+  getAvailableSounds(): string[] {
+    return [];
+  }
+
+  /**
+   * Get the sound used when no specific sound is chosen
+   * @returns Default sound name
+   */
+  getDefaultSound(): string | null {
+    return null;
+  }
+
+  /**
+   * Detect which sound a command generated by this platform plays
+   * @param _command - Command string to inspect
+   * @returns Sound name, 'default' if the sound cannot be identified, or null if none was found
+   */
+  detectSound(_command: string): string | null {
+    return null;
+  }
+
+  /**
+   * Remove characters this backend cannot display or safely carry
+   * @param input - Text to sanitize
+   * @returns Sanitized text
+   */
+  sanitizeText(input: string): string {
+    return input.replace(/[\x00-\x1f\x7f]/g, ' ');
+  }
+
+  /**
+   * Check that notification content can be turned into a command
+   * @param content - Notification content to check
+   * @throws Error if the title or message is missing
+   * @protected
+   */
+  protected _validateContent(content: NotificationContent): void {
+    if (!content || typeof content.title !== 'string' || typeof content.message !== 'string') {
+      throw new Error('Notification content must have a title and a message');
+    }
+
+    if (!content.title.trim() || !content.message.trim()) {
+      throw new Error('Notification title and message must be non-empty strings');
+    }
   }
-}
\ No newline at end of file
+}
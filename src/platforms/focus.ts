@@ -0,0 +1,227 @@
+import { execFile, execFileSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { promisify } from 'util';
+import { FocusProbe, FocusedWindow } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Maximum time a focus lookup may take before the notification is sent anyway
+ */
+const PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Maximum number of parent processes to walk when looking for the terminal
+ */
+const MAX_ANCESTORS = 32;
+
+/**
+ * Application names of common terminal emulators; editors are only matched through TERM_PROGRAM
+ */
+const TERMINAL_APPLICATIONS = [
+  'terminal', 'iterm', 'iterm2', 'ghostty', 'wezterm', 'wezterm-gui', 'alacritty', 'kitty', 'hyper',
+  'warp', 'tabby', 'windowsterminal', 'cmd', 'powershell', 'pwsh', 'conhost', 'mintty',
+  'gnome-terminal', 'gnome-terminal-server', 'konsole', 'xterm', 'xfce4-terminal', 'tilix', 'terminator',
+  'foot', 'urxvt', 'rxvt',
+];
+
+/**
+ * Environment variables set inside tmux, screen, SSH sessions and WSL, where the terminal
+ * window is not one of our parent processes
+ */
+const DETACHED_SESSION_VARIABLES = ['TMUX', 'STY', 'SSH_CONNECTION', 'SSH_TTY', 'WSL_DISTRO_NAME', 'WSL_INTEROP'];
+
+/**
+ * Application names for the TERM_PROGRAM values terminals advertise
+ */
+const TERM_PROGRAM_APPLICATIONS: Record<string, string[]> = {
+  'Apple_Terminal': ['terminal'],
+  'iTerm.app': ['iterm', 'iterm2'],
+  'vscode': ['code', 'cursor'],
+  'WezTerm': ['wezterm', 'wezterm-gui'],
+  'ghostty': ['ghostty'],
+  'Hyper': ['hyper'],
+  'WarpTerminal': ['warp'],
+  'Tabby': ['tabby'],
+};
+
+/**
+ * Normalize an application or process name for comparison
+ * @param name - Name reported by the system
+ * @returns Lowercase name without path or extension
+ */
+function normalizeApplicationName(name: string): string {
+  return name.trim().split(/[\\/]/).pop()!.replace(/\.(exe|app)$/i, '').toLowerCase();
+}
+
+/**
+ * Read the parent of every process on Windows, which has neither /proc nor ps
+ * @returns Parent process ids keyed by process id
+ * @private
+ */
+function readWindowsParentPids(): Map<number, number> {
+  const stdout = execFileSync('powershell', [
+    '-NoProfile',
+    '-Command',
+    'Get-CimInstance Win32_Process | ForEach-Object { "$($_.ProcessId) $($_.ParentProcessId)" }',
+  ], { encoding: 'utf-8', timeout: PROBE_TIMEOUT_MS, windowsHide: true });
+
+  const parents = new Map<number, number>();
+  for (const line of stdout.split(/\r?\n/)) {
+    const [pid, ppid] = line.trim().split(' ').map(Number);
+    if (pid !== undefined && ppid !== undefined && Number.isInteger(pid) && Number.isInteger(ppid)) {
+      parents.set(pid, ppid);
+    }
+  }
+  return parents;
+}
+
+/**
+ * Get the process ids of the parents of this process
+ * @returns Parent, grandparent, ... process ids (empty if they cannot be determined)
+ */
+export function getAncestorPids(): number[] {
+  const pids: number[] = [];
+  let pid = process.ppid;
+  let windowsParents: Map<number, number> | null = null;
+
+  while (pid > 1 && pids.length < MAX_ANCESTORS && !pids.includes(pid)) {
+    pids.push(pid);
+
+    try {
+      if (existsSync(`/proc/${pid}/stat`)) {
+        // The command name in parentheses may contain spaces, so read the fields after it
+        const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+        pid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      } else if (process.platform !== 'win32') {
+        pid = Number(execFileSync('ps', ['-o', 'ppid=', '-p', String(pid)], {
+          encoding: 'utf-8',
+          timeout: PROBE_TIMEOUT_MS,
+        }).trim());
+      } else {
+        windowsParents ??= readWindowsParentPids();
+        pid = windowsParents.get(pid) ?? NaN;
+      }
+    } catch {
+      break;
+    }
+
+    if (!Number.isInteger(pid)) {
+      break;
+    }
+  }
+
+  return pids;
+}
+
+/**
+ * Check whether the terminal window cannot be found among our parent processes
+ * @param ancestors - Process ids of the parents of this process
+ * @param env - Environment of this process
+ * @returns True inside tmux, screen, SSH and WSL, or if the parents cannot be determined
+ */
+export function isProcessTreeDetached(ancestors: number[], env: NodeJS.ProcessEnv = process.env): boolean {
+  return ancestors.length === 0 || DETACHED_SESSION_VARIABLES.some(name => Boolean(env[name]));
+}
+
+/**
+ * Check whether the focused window belongs to the terminal running Claude Code
+ * @param window - Focused window reported by a probe
+ * @param ancestors - Process ids of the parents of this process
+ * @param env - Environment of this process, for TERM_PROGRAM and session markers
+ * @returns True if the focused window is the launching terminal
+ */
+export function isLaunchingTerminal(
+  window: FocusedWindow,
+  ancestors: number[] = getAncestorPids(),
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  // The terminal that launched Claude is one of our parent processes
+  if (window.pid !== undefined && ancestors.includes(window.pid)) {
+    return true;
+  }
+
+  // Matching by application would also match other terminals, so only do it where the
+  // process tree cannot tell; an unrecognized window always gets the notification
+  if (!window.name || !isProcessTreeDetached(ancestors, env)) {
+    return false;
+  }
+
+  const name = normalizeApplicationName(window.name);
+  const termProgram = env.TERM_PROGRAM;
+  const expected = (termProgram && TERM_PROGRAM_APPLICATIONS[termProgram]) || TERMINAL_APPLICATIONS;
+  return expected.includes(name);
+}
+
+/**
+ * Focus probe for macOS using System Events
+ */
+export const macosFocusProbe: FocusProbe = async () => {
+  const { stdout } = await execFileAsync('osascript', [
+    '-e',
+    'tell application "System Events" to get {name, unix id} of first application process whose frontmost is true',
+  ], { timeout: PROBE_TIMEOUT_MS });
+
+  const match = /^(.*), (\d+)\s*$/.exec(stdout);
+  return match?.[1] ? { name: match[1], pid: Number(match[2]) } : null;
+};
+
+/**
+ * Focus probe for X11 using xdotool, falling back to xprop
+ */
+export const x11FocusProbe: FocusProbe = async () => {
+  // Wayland compositors do not expose the focused window to other clients
+  if (!process.env.DISPLAY) {
+    return null;
+  }
+
+  let pid: number;
+  try {
+    const { stdout } = await execFileAsync('xdotool', ['getactivewindow', 'getwindowpid'], { timeout: PROBE_TIMEOUT_MS });
+    pid = Number(stdout.trim());
+  } catch {
+    const { stdout: root } = await execFileAsync('xprop', ['-root', '_NET_ACTIVE_WINDOW'], { timeout: PROBE_TIMEOUT_MS });
+    const windowId = /#\s*(0x[0-9a-f]+)/i.exec(root)?.[1];
+    if (!windowId) {
+      return null;
+    }
+
+    const { stdout } = await execFileAsync('xprop', ['-id', windowId, '_NET_WM_PID'], { timeout: PROBE_TIMEOUT_MS });
+    pid = Number(/=\s*(\d+)/.exec(stdout)?.[1]);
+  }
+
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return null;
+  }
+
+  const commFile = `/proc/${pid}/comm`;
+  const name = existsSync(commFile) ? readFileSync(commFile, 'utf-8').trim() : undefined;
+  return name ? { name, pid } : { pid };
+};
+
+/**
+ * Create a focus probe for Windows calling GetForegroundWindow through PowerShell
+ * @param executable - PowerShell executable ('powershell.exe' from WSL)
+ * @returns Focus probe
+ */
+export function createWindowsFocusProbe(executable: string): FocusProbe {
+  const script = [
+    `Add-Type -Namespace ClaudeNotifier -Name User32 -MemberDefinition '`,
+    `[DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();`,
+    `[DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint pid);'`,
+    '; $p = 0',
+    '; [void][ClaudeNotifier.User32]::GetWindowThreadProcessId([ClaudeNotifier.User32]::GetForegroundWindow(), [ref]$p)',
+    `; (Get-Process -Id $p).ProcessName + '|' + $p`,
+  ].join(' ');
+
+  return async () => {
+    const { stdout } = await execFileAsync(executable, ['-NoProfile', '-Command', script], {
+      timeout: PROBE_TIMEOUT_MS,
+      windowsHide: true,
+    });
+
+    const [name, pid] = stdout.trim().split('|');
+    // Process ids of the Windows host mean nothing inside WSL, so only report them natively
+    return name ? { name, ...(process.platform === 'win32' && pid ? { pid: Number(pid) } : {}) } : null;
+  };
+}
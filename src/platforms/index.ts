@@ -1,52 +1,85 @@
 import { MacOSPlatform } from './macos.js';
 import { WindowsPlatform } from './windows.js';
+import { LinuxPlatform } from './linux.js';
+import { WSLPlatform } from './wsl.js';
+import { TerminalPlatform } from './terminal.js';
 import { NotificationPlatform } from './base.js';
-import { Platform, HookAction } from '../types/index.js';
-
-/**
- * Type for platform class constructors
- */
-type PlatformClass = typeof NotificationPlatform & {
-  isSupported(): boolean;
-  getPlatformId(): Platform;
-  createCommand(action: HookAction | string, withSound?: boolean): string;
-};
+import { Platform, NotificationContent, PlatformCapabilities } from '../types/index.js';
 
 /**
  * Registry for notification platforms
  */
 export class PlatformRegistry {
-  private static platforms = new Map<Platform, PlatformClass>([
-    [Platform.MACOS, MacOSPlatform as PlatformClass],
-    [Platform.WINDOWS, WindowsPlatform as PlatformClass],
-  ]);
+  // Order matters: WSL must be checked before the generic Linux backend,
+  // and the terminal backend is the fallback when no desktop is available
+  private static platforms = new Map<string, NotificationPlatform>(
+    [
+      new MacOSPlatform(),
+      new WindowsPlatform(),
+      new WSLPlatform(),
+      new LinuxPlatform(),
+      new TerminalPlatform(),
+    ].map(platform => [platform.id, platform])
+  );
+
+  private static preferred: string | null = null;
 
   /**
    * Register a new platform
-   * @param name - Platform name
-   * @param platformClass - Platform class extending NotificationPlatform
+   * @param platform - Platform instance extending NotificationPlatform
    */
-  static register(name: Platform, platformClass: PlatformClass): void {
-    this.platforms.set(name, platformClass);
+  static register(platform: NotificationPlatform): void {
+    this.platforms.set(platform.id, platform);
+
+    // Keep the terminal fallback last, since it is supported almost everywhere and would
+    // otherwise be detected before any platform registered after it
+    const fallback = this.platforms.get(Platform.TERMINAL);
+    if (fallback && platform.id !== Platform.TERMINAL) {
+      this.platforms.delete(Platform.TERMINAL);
+      this.platforms.set(Platform.TERMINAL, fallback);
+    }
   }
 
   /**
    * Get all registered platforms
-   * @returns Map of platform names to classes
+   * @returns Map of platform names to instances
    */
-  static getAllPlatforms(): Map<Platform, PlatformClass> {
+  static getAllPlatforms(): Map<string, NotificationPlatform> {
     return new Map(this.platforms);
   }
 
   /**
-   * Get the first supported platform for the current system
-   * @returns Platform class that supports the current system
+   * Set the platform to use instead of the first supported one
+   * @param name - Platform name, or null for automatic detection
+   */
+  static setPreferredPlatform(name: string | null): void {
+    this.preferred = name;
+  }
+
+  /**
+   * Get the explicitly preferred platform name
+   * @returns Platform name, or null if platforms are detected automatically
+   */
+  static getPreferredPlatform(): string | null {
+    return this.preferred;
+  }
+
+  /**
+   * Get the preferred platform if it is supported, otherwise the first supported platform
+   * @returns Platform that supports the current system
    * @throws Error if no supported platform is found
    */
-  static getSupportedPlatform(): PlatformClass {
-    for (const [_name, PlatformClass] of this.platforms) {
-      if (PlatformClass.isSupported()) {
-        return PlatformClass;
+  static getSupportedPlatform(): NotificationPlatform {
+    if (this.preferred) {
+      const preferred = this.platforms.get(this.preferred);
+      if (preferred?.isSupported()) {
+        return preferred;
+      }
+    }
+
+    for (const platform of this.platforms.values()) {
+      if (platform.isSupported()) {
+        return platform;
       }
     }
 
@@ -69,9 +102,9 @@ export class PlatformRegistry {
   /**
    * Get platform by name
    * @param name - Platform name
-   * @returns Platform class or null if not found
+   * @returns Platform instance or null if not found
    */
-  static getPlatform(name: Platform): PlatformClass | null {
+  static getPlatform(name: Platform | string): NotificationPlatform | null {
     return this.platforms.get(name) ?? null;
   }
 
@@ -79,10 +112,10 @@ export class PlatformRegistry {
    * List all supported platform names for the current system
    * @returns Array of supported platform names
    */
-  static getSupportedPlatformNames(): Platform[] {
-    const supported: Platform[] = [];
-    for (const [name, PlatformClass] of this.platforms) {
-      if (PlatformClass.isSupported()) {
+  static getSupportedPlatformNames(): string[] {
+    const supported: string[] = [];
+    for (const [name, platform] of this.platforms) {
+      if (platform.isSupported()) {
         supported.push(name);
       }
     }
@@ -92,14 +125,13 @@ export class PlatformRegistry {
 
 /**
  * Factory function to create notification commands
- * @param action - The action that occurred
- * @param withSound - Whether to include sound
+ * @param content - Notification title, message and sound
  * @returns The notification command
  * @throws Error if no supported platform is found
  */
-export function createNotificationCommand(action: HookAction | string, withSound = false): string {
-  const Platform = PlatformRegistry.getSupportedPlatform();
-  return Platform.createCommand(action, withSound);
+export function createNotificationCommand(content: NotificationContent): string {
+  const platform = PlatformRegistry.getSupportedPlatform();
+  return platform.createCommand(content);
 }
 
 /**
@@ -115,9 +147,20 @@ export function isNotificationSupported(): boolean {
  * @returns Current platform ID
  * @throws Error if no supported platform is found
  */
-export function getCurrentPlatform(): Platform {
-  const PlatformClass = PlatformRegistry.getSupportedPlatform();
-  return PlatformClass.getPlatformId();
+export function getCurrentPlatform(): Platform | string {
+  return PlatformRegistry.getSupportedPlatform().id;
+}
+
+/**
+ * Get the capabilities declared by the current platform
+ * @returns Platform capabilities, or null if no supported platform is found
+ */
+export function getPlatformCapabilities(): PlatformCapabilities | null {
+  try {
+    return PlatformRegistry.getSupportedPlatform().capabilities;
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -125,11 +168,47 @@ export function getCurrentPlatform(): Platform {
  * @returns True if sound is supported
  */
 export function isSoundSupported(): boolean {
+  return getPlatformCapabilities()?.sound ?? false;
+}
+
+/**
+ * List the notification sounds available on the current platform
+ * @returns Sound names, or an empty array if the platform has no selectable sounds
+ */
+export function getAvailableSounds(): string[] {
+  try {
+    const platform = PlatformRegistry.getSupportedPlatform();
+    return platform.capabilities.customSounds ? platform.getAvailableSounds() : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the default notification sound of the current platform
+ * @returns Default sound name, or null if not available
+ */
+export function getDefaultSound(): string | null {
   try {
-    const platform = getCurrentPlatform();
-    // Currently only macOS supports sound notifications
-    return platform === Platform.MACOS;
+    return PlatformRegistry.getSupportedPlatform().getDefaultSound();
   } catch {
-    return false;
+    return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Detect which sound a notification command plays
+ * @param command - Command string to inspect
+ * @returns Sound name, 'default' if the sound cannot be identified, or null if silent
+ */
+export function detectSoundInCommand(command: string): string | null {
+  // Commands may have been generated on another platform, so ask every registered one
+  for (const platform of PlatformRegistry.getAllPlatforms().values()) {
+    const sound = platform.detectSound(command);
+    if (sound) {
+      return sound;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,131 @@
+import { platform } from 'os';
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { NotificationPlatform } from './base.js';
+import { x11FocusProbe } from './focus.js';
+import { Platform, NotificationContent, NotificationSeverity, PlatformCapabilities, FocusProbe } from '../types/index.js';
+
+/**
+ * Directory holding the freedesktop sound theme
+ */
+const SOUNDS_DIR = '/usr/share/sounds/freedesktop/stereo';
+
+/**
+ * Common freedesktop sound theme events, used when the theme directory cannot be read
+ */
+const BUILTIN_SOUNDS = [
+  'bell', 'complete', 'dialog-information', 'dialog-warning', 'message', 'message-new-instant',
+];
+
+/**
+ * Linux notification platform implementation using the freedesktop notification service
+ */
+export class LinuxPlatform extends NotificationPlatform {
+  override readonly id: Platform = Platform.LINUX;
+
+  override readonly capabilities: PlatformCapabilities = {
+    displayName: 'Linux',
+    sound: true,
+    customSounds: true,
+    icons: true,
+    clickActions: false,
+    urgency: true,
+    grouping: false,
+  };
+
+  override focusProbe: FocusProbe | null = x11FocusProbe;
+
+  override isSupported(): boolean {
+    // Without a graphical session (e.g. over SSH) there is no notification daemon to talk to
+    return platform() === 'linux' && Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+  }
+
+  override createCommand(content: NotificationContent): string {
+    this._validateContent(content);
+
+    const title = this._quoteForShell(this.sanitizeText(content.title));
+    const message = this._quoteForShell(this.sanitizeText(content.message));
+
+    // Errors use the critical urgency, which notification daemons keep on screen until dismissed
+    const critical = content.severity === NotificationSeverity.ERROR;
+
+    // Prefer notify-send, fall back to calling the notification service over D-Bus directly
+    const notifySend = `notify-send --app-name=${title}${critical ? ' --urgency=critical' : ''} ${title} ${message}`;
+    const gdbusCall = [
+      'gdbus call --session',
+      '--dest org.freedesktop.Notifications',
+      '--object-path /org/freedesktop/Notifications',
+      '--method org.freedesktop.Notifications.Notify',
+      `${title} 0 '' ${title} ${message} '[]' ${critical ? `"{'urgency': <byte 2>}"` : `'{}'`} 5000`,
+    ].join(' ');
+
+    const notifyPart = `if command -v notify-send >/dev/null 2>&1; then ${notifySend}; else ${gdbusCall} >/dev/null; fi`;
+
+    if (!content.withSound) {
+      return notifyPart;
+    }
+
+    // Play the sound theme event through libcanberra, or its file through PulseAudio if unavailable
+    const sound = (content.soundName ?? this.getDefaultSound()).replace(/[^\w.-]/g, '');
+    const soundFile = path.posix.join(SOUNDS_DIR, `${sound}.oga`);
+    const soundPart = `(canberra-gtk-play -i ${sound} 2>/dev/null || paplay ${soundFile} 2>/dev/null) &`;
+
+    return `${notifyPart}; ${soundPart}`;
+  }
+
+  override detectSound(command: string): string | null {
+    const match = /canberra-gtk-play -i ([\w.-]+)/.exec(command);
+    if (match?.[1]) {
+      return match[1];
+    }
+
+    return command.includes('paplay') ? 'default' : null;
+  }
+
+  override getAvailableSounds(): string[] {
+    try {
+      if (existsSync(SOUNDS_DIR)) {
+        const sounds = readdirSync(SOUNDS_DIR)
+          .filter(file => file.endsWith('.oga'))
+          .map(file => path.basename(file, '.oga'))
+          .sort();
+
+        if (sounds.length > 0) {
+          return sounds;
+        }
+      }
+    } catch {
+      // Fall back to the built-in list
+    }
+
+    return [...BUILTIN_SOUNDS];
+  }
+
+  override getDefaultSound(): string {
+    return 'complete';
+  }
+
+  /**
+   * Sanitize input for shell command construction
+   * @param input - The input to sanitize
+   * @returns Sanitized input
+   */
+  override sanitizeText(input: string): string {
+    if (typeof input !== 'string') {
+      return '';
+    }
+
+    // Remove control characters and the markup characters notification servers interpret
+    return input.replace(/[\x00-\x1f\x7f<>&]/g, ' ');
+  }
+
+  /**
+   * Wrap a value in single quotes for POSIX shells
+   * @param input - The value to quote
+   * @returns Quoted value
+   * @private
+   */
+  private _quoteForShell(input: string): string {
+    return `'${input.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -0,0 +1,223 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { NotificationPlatform } from './base.js';
+import { PlatformRegistry } from './index.js';
+import { PlatformLoadError } from '../utils/errors.js';
+import { NotificationContent, NotifierConfigData, PlatformCapabilities } from '../types/index.js';
+
+/**
+ * Capability flags a third-party platform must declare
+ */
+const CAPABILITY_FLAGS: (keyof Omit<PlatformCapabilities, 'displayName'>)[] = [
+  'sound',
+  'customSounds',
+  'icons',
+  'clickActions',
+  'urgency',
+  'grouping',
+];
+
+/**
+ * Shape a third-party platform module has to export
+ */
+interface ExternalPlatformShape {
+  id: string;
+  capabilities: PlatformCapabilities;
+  isSupported(): boolean;
+  createCommand(content: NotificationContent): string;
+  send?(content: NotificationContent): Promise<void>;
+  getAvailableSounds?(): string[];
+  getDefaultSound?(): string | null;
+  detectSound?(command: string): string | null;
+  sanitizeText?(input: string): string;
+  isTerminalFocused?(): Promise<boolean>;
+}
+
+/**
+ * Adapter for platform objects that do not extend NotificationPlatform
+ */
+class ExternalPlatform extends NotificationPlatform {
+  override readonly id: string;
+  override readonly capabilities: PlatformCapabilities;
+  private readonly impl: ExternalPlatformShape;
+
+  constructor(impl: ExternalPlatformShape) {
+    super();
+    this.impl = impl;
+    this.id = impl.id;
+    this.capabilities = { ...impl.capabilities };
+  }
+
+  override isSupported(): boolean {
+    return this.impl.isSupported();
+  }
+
+  override createCommand(content: NotificationContent): string {
+    return this.impl.createCommand(content);
+  }
+
+  override async send(content: NotificationContent): Promise<void> {
+    if (this.impl.send) {
+      await this.impl.send(content);
+      return;
+    }
+
+    await super.send(content);
+  }
+
+  override getAvailableSounds(): string[] {
+    return this.impl.getAvailableSounds?.() ?? [];
+  }
+
+  override getDefaultSound(): string | null {
+    return this.impl.getDefaultSound?.() ?? null;
+  }
+
+  override detectSound(command: string): string | null {
+    return this.impl.detectSound?.(command) ?? null;
+  }
+
+  override async isTerminalFocused(): Promise<boolean> {
+    if (!this.impl.isTerminalFocused) {
+      return super.isTerminalFocused();
+    }
+
+    try {
+      return await this.impl.isTerminalFocused();
+    } catch {
+      return false;
+    }
+  }
+
+  override sanitizeText(input: string): string {
+    return this.impl.sanitizeText ? this.impl.sanitizeText(input) : super.sanitizeText(input);
+  }
+}
+
+/**
+ * Resolve a platform module specifier to something import() can load
+ * @param spec - Local path or installed package name
+ * @param baseDir - Directory relative paths and packages are resolved from
+ * @returns Module URL or bare specifier
+ */
+function resolveSpecifier(spec: string, baseDir: string): string {
+  if (spec.startsWith('.') || path.isAbsolute(spec)) {
+    return pathToFileURL(path.resolve(baseDir, spec)).href;
+  }
+
+  // Prefer packages installed next to the config file, then fall back to normal resolution
+  try {
+    const require = createRequire(path.join(baseDir, 'noop.js'));
+    return pathToFileURL(require.resolve(spec)).href;
+  } catch {
+    return spec;
+  }
+}
+
+/**
+ * Validate the shape of an exported platform
+ * @param spec - Module specifier, for error messages
+ * @param candidate - Exported value
+ * @returns Validated platform instance
+ * @throws PlatformLoadError if the export is not a usable platform
+ */
+function validatePlatform(spec: string, candidate: unknown): NotificationPlatform {
+  // Accept platform classes as well as instances
+  let value = candidate;
+  if (typeof value === 'function') {
+    try {
+      value = new (value as new () => unknown)();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PlatformLoadError(spec, `could not instantiate exported class: ${errorMessage}`);
+    }
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new PlatformLoadError(spec, 'module does not export a platform');
+  }
+
+  const platform = value as Partial<ExternalPlatformShape>;
+
+  if (typeof platform.id !== 'string' || !/^[\w-]+$/.test(platform.id)) {
+    throw new PlatformLoadError(spec, 'platform id must be a non-empty string of letters, digits, - or _');
+  }
+
+  for (const method of ['isSupported', 'createCommand'] as const) {
+    if (typeof platform[method] !== 'function') {
+      throw new PlatformLoadError(spec, `platform must implement ${method}()`);
+    }
+  }
+
+  const capabilities = platform.capabilities;
+  if (!capabilities || typeof capabilities !== 'object' || typeof capabilities.displayName !== 'string') {
+    throw new PlatformLoadError(spec, 'platform must declare capabilities with a displayName');
+  }
+
+  const missing = CAPABILITY_FLAGS.filter(flag => typeof capabilities[flag] !== 'boolean');
+  if (missing.length > 0) {
+    throw new PlatformLoadError(spec, `capabilities are missing boolean flags: ${missing.join(', ')}`);
+  }
+
+  if (value instanceof NotificationPlatform) {
+    return value;
+  }
+
+  return new ExternalPlatform(platform as ExternalPlatformShape);
+}
+
+/**
+ * Load a third-party platform module
+ * @param spec - Local path or installed package name
+ * @param baseDir - Directory relative paths and packages are resolved from
+ * @returns Validated platform instance
+ * @throws PlatformLoadError if the module cannot be loaded or is invalid
+ */
+export async function loadPlatformModule(spec: string, baseDir: string): Promise<NotificationPlatform> {
+  let exports: Record<string, unknown>;
+
+  try {
+    exports = await import(resolveSpecifier(spec, baseDir)) as Record<string, unknown>;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new PlatformLoadError(spec, errorMessage);
+  }
+
+  return validatePlatform(spec, exports['default'] ?? exports['platform']);
+}
+
+/**
+ * Register the third-party platforms and the preferred platform from the notifier config
+ * @param config - Notifier configuration data
+ * @param baseDir - Directory relative paths and packages are resolved from
+ * @returns Errors for platforms that could not be loaded
+ */
+export async function loadConfiguredPlatforms(
+  config: NotifierConfigData,
+  baseDir: string
+): Promise<PlatformLoadError[]> {
+  const errors: PlatformLoadError[] = [];
+
+  for (const spec of config.platforms ?? []) {
+    try {
+      const platform = await loadPlatformModule(spec, baseDir);
+
+      if (PlatformRegistry.getPlatform(platform.id)) {
+        throw new PlatformLoadError(spec, `a platform with id '${platform.id}' is already registered`);
+      }
+
+      PlatformRegistry.register(platform);
+    } catch (error) {
+      if (error instanceof PlatformLoadError) {
+        errors.push(error);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  PlatformRegistry.setPreferredPlatform(config.preferredPlatform ?? null);
+
+  return errors;
+}
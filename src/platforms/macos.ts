@@ -1,29 +1,101 @@
 import { platform } from 'os';
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
 import { NotificationPlatform } from './base.js';
-import { Platform, HookAction } from '../types/index.js';
+import { macosFocusProbe } from './focus.js';
+import { Platform, NotificationContent, PlatformCapabilities, FocusProbe } from '../types/index.js';
+
+/**
+ * Directory holding the system alert sounds
+ */
+const SOUNDS_DIR = '/System/Library/Sounds';
+
+/**
+ * Sounds shipped with every macOS release, used when the sounds directory cannot be read
+ */
+const BUILTIN_SOUNDS = [
+  'Basso', 'Blow', 'Bottle', 'Frog', 'Funk', 'Glass', 'Hero',
+  'Morse', 'Ping', 'Pop', 'Purr', 'Sosumi', 'Submarine', 'Tink',
+];
 
 /**
  * macOS notification platform implementation using osascript
  */
 export class MacOSPlatform extends NotificationPlatform {
-  static override isSupported(): boolean {
+  override readonly id: Platform = Platform.MACOS;
+
+  override readonly capabilities: PlatformCapabilities = {
+    displayName: 'macOS',
+    sound: true,
+    customSounds: true,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: false,
+  };
+
+  override focusProbe: FocusProbe | null = macosFocusProbe;
+
+  override isSupported(): boolean {
     return platform() === 'darwin';
   }
 
-  static override getPlatformId(): Platform {
-    return Platform.MACOS;
+  override createCommand(content: NotificationContent): string {
+    this._validateContent(content);
+
+    const message = this._escapeForAppleScript(content.message);
+    const title = this._escapeForAppleScript(content.title);
+
+    const sound = (content.soundName ?? this.getDefaultSound()).replace(/[^\w -]/g, '');
+    const soundPart = content.withSound ? ` sound name "${sound}"` : '';
+
+    const script = `display notification "${message}" with title "${title}"${soundPart}`;
+
+    // The script is passed in single quotes, so close and reopen the quotes around any quote it contains
+    return `osascript -e '${script.replace(/'/g, `'\\''`)}'`;
+  }
+
+  override detectSound(command: string): string | null {
+    const match = /sound name "([^"]+)"/.exec(command);
+    if (match?.[1]) {
+      return match[1];
+    }
+
+    return command.includes('with sound') ? 'default' : null;
   }
 
-  static override createCommand(action: HookAction | string, withSound = false): string {
-    if (!action || typeof action !== 'string') {
-      throw new Error('Action must be a non-empty string');
+  override getAvailableSounds(): string[] {
+    try {
+      if (existsSync(SOUNDS_DIR)) {
+        const sounds = readdirSync(SOUNDS_DIR)
+          .filter(file => file.endsWith('.aiff'))
+          .map(file => path.basename(file, '.aiff'))
+          .sort();
+
+        if (sounds.length > 0) {
+          return sounds;
+        }
+      }
+    } catch {
+      // Fall back to the built-in list
     }
 
-    // Sanitize the action for AppleScript
-    const sanitizedAction = action.replace(/['"\\]/g, '\\$&');
+    return [...BUILTIN_SOUNDS];
+  }
 
-    const soundPart = withSound ? ' sound name "Glass"' : '';
+  override getDefaultSound(): string {
+    return 'Glass';
+  }
 
-    return `osascript -e 'display notification "Claude Task ${sanitizedAction}!" with title "Claude Code"${soundPart}'`;
+  /**
+   * Escape text for an AppleScript string literal
+   * @param input - The text to escape
+   * @returns Escaped text without control characters
+   * @private
+   */
+  private _escapeForAppleScript(input: string): string {
+    return input
+      .replace(/[\x00-\x1f\x7f]/g, ' ')
+      .replace(/["\\]/g, '\\$&');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+import { platform } from 'os';
+import { existsSync } from 'fs';
+import { NotificationPlatform } from './base.js';
+import { Platform, NotificationContent, PlatformCapabilities } from '../types/index.js';
+
+/**
+ * Controlling terminal of the hook process
+ */
+const TTY = '/dev/tty';
+
+/**
+ * Terminal notification platform implementation using OSC escape sequences
+ *
+ * The sequences are written to the controlling TTY, so the terminal emulator on the
+ * user's machine shows the notification even when Claude Code runs on a remote host.
+ */
+export class TerminalPlatform extends NotificationPlatform {
+  override readonly id: Platform = Platform.TERMINAL;
+
+  override readonly capabilities: PlatformCapabilities = {
+    displayName: 'Terminal (escape sequences)',
+    sound: true,
+    customSounds: false,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: false,
+  };
+
+  override isSupported(): boolean {
+    return platform() !== 'win32' && existsSync(TTY);
+  }
+
+  override needsTerminal(): boolean {
+    return true;
+  }
+
+  override createCommand(content: NotificationContent): string {
+    this._validateContent(content);
+
+    const title = this.sanitizeText(content.title);
+    const message = this.sanitizeText(content.message);
+    const summary = this._quoteForShell(`${title}: ${message}`);
+
+    // Pick the sequence the terminal understands, detected when the hook runs
+    const sequence = [
+      'case "$TERM_PROGRAM:$TERM" in',
+      // kitty desktop notification protocol
+      `*kitty*) printf '\\033]99;;%s\\033\\\\' ${summary} ;;`,
+      // rxvt-unicode, foot and ghostty notification extension
+      `*rxvt*|*foot*|*ghostty*) printf '\\033]777;notify;%s;%s\\033\\\\' ${this._quoteForShell(title)} ${this._quoteForShell(message)} ;;`,
+      // Multiplexers swallow OSC sequences, but forward the bell to the outer terminal
+      `tmux*|*:screen*|*:tmux*) printf '\\007' ;;`,
+      // iTerm2, WezTerm, Windows Terminal and others
+      `*) printf '\\033]9;%s\\007' ${summary} ;;`,
+      'esac',
+    ].join(' ');
+
+    // Fails without a controlling terminal, so the notification is not recorded as sent
+    const notifyPart = `{ ${sequence}; } > ${TTY} 2>/dev/null`;
+
+    if (!content.withSound) {
+      return notifyPart;
+    }
+
+    return `${notifyPart} && { printf '\\a' > ${TTY} 2>/dev/null || true; }`;
+  }
+
+  override detectSound(command: string): string | null {
+    return command.includes("printf '\\a'") ? this.getDefaultSound() : null;
+  }
+
+  override getDefaultSound(): string {
+    return 'bell';
+  }
+
+  /**
+   * Sanitize input so it cannot terminate or split an escape sequence
+   * @param input - The input to sanitize
+   * @returns Sanitized input
+   */
+  override sanitizeText(input: string): string {
+    if (typeof input !== 'string') {
+      return '';
+    }
+
+    // Remove C0/C1 control characters (ESC, BEL, ST) and the OSC 777 field separator
+    return input.replace(/[\x00-\x1f\x7f-\x9f;]/g, ' ');
+  }
+
+  /**
+   * Wrap a value in single quotes for POSIX shells
+   * @param input - The value to quote
+   * @returns Quoted value
+   * @private
+   */
+  private _quoteForShell(input: string): string {
+    return `'${input.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -1,60 +1,237 @@
 import { platform } from 'os';
 import { NotificationPlatform } from './base.js';
-import { Platform, HookAction } from '../types/index.js';
+import { createWindowsFocusProbe } from './focus.js';
+import { Platform, NotificationContent, NotificationSeverity, PlatformCapabilities, FocusProbe } from '../types/index.js';
 
 /**
- * Windows notification platform implementation using PowerShell
+ * Sender name shown for toast notifications
+ */
+const APP_NAME = 'Claude Code';
+
+/**
+ * AppUserModelID that toast notifications are registered under
+ */
+const APP_ID = 'ClaudeCode.TaskNotifier';
+
+/**
+ * Action Center group shared by all toasts from this tool
+ */
+const TOAST_GROUP = 'claude-code';
+
+/**
+ * Toast audio events available to unpackaged apps
+ */
+const TOAST_SOUNDS = ['Default', 'IM', 'Mail', 'Reminder', 'SMS'];
+
+/**
+ * System sound played with balloon tips, relative to the Windows directory
+ */
+const SOUND_FILE = 'Media\\Windows Notify System Generic.wav';
+
+/**
+ * Windows notification platform implementation using PowerShell toast notifications
  */
 export class WindowsPlatform extends NotificationPlatform {
-  static override isSupported(): boolean {
+  override readonly id: Platform = Platform.WINDOWS;
+
+  override readonly capabilities: PlatformCapabilities = {
+    displayName: 'Windows',
+    sound: true,
+    customSounds: true,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: true,
+  };
+
+  override focusProbe: FocusProbe | null = createWindowsFocusProbe('powershell');
+
+  override isSupported(): boolean {
     return platform() === 'win32';
   }
 
-  static override getPlatformId(): Platform {
-    return Platform.WINDOWS;
+  override createCommand(content: NotificationContent): string {
+    return `powershell -NoProfile -Command "${this._buildScript(content)}"`;
   }
 
-  static override createCommand(action: HookAction | string, _withSound = false): string {
-    if (!action || typeof action !== 'string') {
-      throw new Error('Action must be a non-empty string');
+  override detectSound(command: string): string | null {
+    const match = /ms-winsoundevent:Notification\.(\w+)/.exec(command);
+    if (match?.[1]) {
+      return match[1];
+    }
+
+    if (command.includes('System.Media.SoundPlayer') || command.includes('System.Media.SystemSounds')) {
+      return 'default';
     }
 
+    return null;
+  }
+
+  override getAvailableSounds(): string[] {
+    return [...TOAST_SOUNDS];
+  }
+
+  override getDefaultSound(): string {
+    return 'Default';
+  }
+
+  /**
+   * Build the PowerShell script that shows the notification
+   * @param content - Notification title, message and sound
+   * @returns PowerShell statements joined into a single line
+   * @protected
+   */
+  protected _buildScript(content: NotificationContent): string {
+    this._validateContent(content);
+
     // Sanitize inputs for PowerShell
-    const sanitizedAction = this._sanitizeForPowerShell(action);
-    const title = 'Claude Code';
-    const message = `Claude Task ${sanitizedAction}!`;
+    const title = this.sanitizeText(content.title);
+    const message = this.sanitizeText(content.message);
+
+    const urgent = content.severity === NotificationSeverity.ERROR;
+
+    // Older hosts without the WinRT toast API fall back to a balloon tip
+    const toast = this._buildToastStatements(title, message, content.withSound, content.soundName, urgent).join('; ');
+    const balloon = this._buildBalloonStatements(title, message, content.withSound, urgent).join('; ');
 
-    // PowerShell command to create balloon tip notification
-    const psCommand = [
+    return `try { ${toast} } catch { ${balloon} }`;
+  }
+
+  /**
+   * Build the toast XML payload for a notification
+   * @param title - Notification title
+   * @param message - Notification body
+   * @param withSound - Whether the toast should play a notification sound
+   * @param soundName - Toast sound to play (defaults to the platform default sound)
+   * @param urgent - Whether to show the toast as urgent, so it stays until dismissed
+   * @returns Toast XML document using single-quoted attributes
+   */
+  buildToastXml(title: string, message: string, withSound = false, soundName?: string, urgent = false): string {
+    const sound = TOAST_SOUNDS.includes(soundName ?? '') ? soundName : this.getDefaultSound();
+    const audio = withSound
+      ? `<audio src='ms-winsoundevent:Notification.${sound}'/>`
+      : `<audio silent='true'/>`;
+
+    return [
+      urgent ? `<toast scenario='urgent'>` : '<toast>',
+      '<visual>',
+      `<binding template='ToastGeneric'>`,
+      `<text>${this._escapeXml(title)}</text>`,
+      `<text>${this._escapeXml(message)}</text>`,
+      '</binding>',
+      '</visual>',
+      audio,
+      '</toast>',
+    ].join('');
+  }
+
+  /**
+   * Build statements that show a toast through ToastNotificationManager
+   * @param title - Notification title
+   * @param message - Notification body
+   * @param withSound - Whether to include sound in the notification
+   * @param soundName - Toast sound to play
+   * @param urgent - Whether to show the toast as urgent
+   * @returns PowerShell statements
+   * @private
+   */
+  private _buildToastStatements(
+    title: string,
+    message: string,
+    withSound: boolean,
+    soundName?: string,
+    urgent = false
+  ): string[] {
+    const registryPath = `HKCU:\\Software\\Classes\\AppUserModelId\\${APP_ID}`;
+    const xml = this.buildToastXml(title, message, withSound, soundName, urgent);
+
+    return [
+      // Register the AppUserModelID so Windows shows and groups the toasts under one sender
+      `$appId = '${APP_ID}'`,
+      `$regPath = '${registryPath}'`,
+      'if (-not (Test-Path $regPath)) { New-Item -Path $regPath -Force | Out-Null }',
+      `New-ItemProperty -Path $regPath -Name DisplayName -Value '${APP_NAME}' -PropertyType String -Force | Out-Null`,
+      '[Windows.UI.Notifications.ToastNotificationManager, Windows.UI.Notifications, ContentType = WindowsRuntime] | Out-Null',
+      '[Windows.Data.Xml.Dom.XmlDocument, Windows.Data.Xml.Dom.XmlDocument, ContentType = WindowsRuntime] | Out-Null',
+      '$xml = New-Object Windows.Data.Xml.Dom.XmlDocument',
+      `$xml.LoadXml(${this._quoteForPowerShell(xml)})`,
+      '$toast = New-Object Windows.UI.Notifications.ToastNotification $xml',
+      `$toast.Group = '${TOAST_GROUP}'`,
+      '[Windows.UI.Notifications.ToastNotificationManager]::CreateToastNotifier($appId).Show($toast)',
+    ];
+  }
+
+  /**
+   * Build statements that show a NotifyIcon balloon tip
+   * @param title - Notification title
+   * @param message - Notification body
+   * @param withSound - Whether to include sound in the notification
+   * @param urgent - Whether to show an error icon instead of a warning
+   * @returns PowerShell statements
+   * @private
+   */
+  private _buildBalloonStatements(title: string, message: string, withSound: boolean, urgent = false): string[] {
+    const statements = [
       'Add-Type -AssemblyName System.Windows.Forms',
       '$balloon = New-Object System.Windows.Forms.NotifyIcon',
       '$path = (Get-Process -Id $pid).Path',
       '$balloon.Icon = [System.Drawing.Icon]::ExtractAssociatedIcon($path)',
-      '$balloon.BalloonTipIcon = [System.Windows.Forms.ToolTipIcon]::Warning',
-      `$balloon.BalloonTipText = '${this._sanitizeForPowerShell(message)}'`,
-      `$balloon.BalloonTipTitle = '${this._sanitizeForPowerShell(title)}'`,
+      `$balloon.BalloonTipIcon = [System.Windows.Forms.ToolTipIcon]::${urgent ? 'Error' : 'Warning'}`,
+      `$balloon.BalloonTipText = ${this._quoteForPowerShell(message)}`,
+      `$balloon.BalloonTipTitle = ${this._quoteForPowerShell(title)}`,
       '$balloon.Visible = $true',
       '$balloon.ShowBalloonTip(5000)',
-    ].join('; ');
+    ];
 
-    return `powershell -NoProfile -Command "${psCommand}"`;
+    if (withSound) {
+      // PlaySync keeps PowerShell alive until the sound has finished playing
+      statements.push(
+        `$player = New-Object System.Media.SoundPlayer (Join-Path $env:SystemRoot '${SOUND_FILE}')`,
+        '$player.PlaySync()'
+      );
+    }
+
+    return statements;
+  }
+
+  /**
+   * Escape text for use inside XML element content and attributes
+   * @param input - The text to escape
+   * @returns Escaped text
+   * @private
+   */
+  private _escapeXml(input: string): string {
+    return input
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
   }
 
   /**
    * Sanitize input for PowerShell command construction
    * @param input - The input to sanitize
    * @returns Sanitized input
-   * @private
    */
-  private static _sanitizeForPowerShell(input: string): string {
+  override sanitizeText(input: string): string {
     if (typeof input !== 'string') {
       return '';
     }
 
-    // Escape single quotes and remove potentially dangerous characters
-    return input
-      .replace(/'/g, "''") // Escape single quotes for PowerShell
-      .replace(/[`$"\\]/g, '') // Remove backticks, dollar signs, double quotes, backslashes
-      .replace(/[^\w\s!?.-]/g, ''); // Keep only safe characters
+    // Remove control characters, and characters that would end the double-quoted
+    // argument or expand variables in the shell that launches PowerShell
+    return input.replace(/[\x00-\x1f\x7f"%`]/g, '');
+  }
+
+  /**
+   * Wrap a value in a PowerShell single-quoted string literal
+   * @param input - The value to quote
+   * @returns Quoted value
+   * @private
+   */
+  private _quoteForPowerShell(input: string): string {
+    // PowerShell also treats typographic single quotes as quote characters
+    return `'${input.replace(/['\u2018\u2019\u201a\u201b]/g, '$&$&')}'`;
   }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { platform } from 'os';
+import { existsSync, readFileSync } from 'fs';
+import { WindowsPlatform } from './windows.js';
+import { createWindowsFocusProbe } from './focus.js';
+import { Platform, NotificationContent, PlatformCapabilities, FocusProbe } from '../types/index.js';
+
+/**
+ * Windows Subsystem for Linux platform implementation that notifies on the Windows host
+ */
+export class WSLPlatform extends WindowsPlatform {
+  override readonly id: Platform = Platform.WSL;
+
+  override readonly capabilities: PlatformCapabilities = {
+    displayName: 'Windows (WSL)',
+    sound: true,
+    customSounds: true,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: true,
+  };
+
+  override focusProbe: FocusProbe | null = createWindowsFocusProbe('powershell.exe');
+
+  override isSupported(): boolean {
+    if (platform() !== 'linux') {
+      return false;
+    }
+
+    if (process.env.WSL_DISTRO_NAME) {
+      return true;
+    }
+
+    return this._isWSLKernel();
+  }
+
+  override createCommand(content: NotificationContent): string {
+    const psCommand = this._buildScript(content);
+
+    // Hooks run through bash inside the distro, so the script is single-quoted for bash
+    // and powershell.exe is resolved through the Windows interop PATH
+    return `powershell.exe -NoProfile -Command ${this._quoteForBash(psCommand)}`;
+  }
+
+  /**
+   * Check the kernel version string for the WSL signature
+   * @returns True if running on a WSL kernel
+   * @private
+   */
+  private _isWSLKernel(): boolean {
+    try {
+      if (!existsSync('/proc/version')) {
+        return false;
+      }
+
+      const version = readFileSync('/proc/version', 'utf-8');
+      return /microsoft|wsl/i.test(version);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Wrap a value in single quotes for bash
+   * @param input - The value to quote
+   * @returns Quoted value
+   * @private
+   */
+  private _quoteForBash(input: string): string {
+    return `'${input.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -0,0 +1,199 @@
+import path from 'path';
+import { execSync } from 'child_process';
+import { existsSync, readFileSync, realpathSync } from 'fs';
+
+/**
+ * Package name used to run the notifier through npx
+ */
+const PACKAGE_NAME = 'claude-code-task-notifier';
+
+/**
+ * Maximum time to spend asking npm where global packages are installed
+ */
+const NPM_TIMEOUT_MS = 5000;
+
+/**
+ * Command prefix that runs this CLI from a hook, resolved on first use
+ */
+let executable: string | null = null;
+
+/**
+ * Sound argument meaning "the platform default sound"
+ */
+export const DEFAULT_SOUND = 'default';
+
+/**
+ * Notify invocation parsed back from an installed hook command
+ */
+export interface NotifyHookCommand {
+  event: string;
+  sound: string | null;
+  permissionSound: string | null;
+  rule: string | null;
+  failuresOnly: boolean;
+}
+
+/**
+ * Options selecting which calls of a tool hook notify
+ */
+export interface NotifyHookOptions {
+  rule?: string;
+  failuresOnly?: boolean;
+}
+
+/**
+ * Resolve the path of a script
+ * @param script - Path of the CLI entry point
+ * @returns Absolute path, following symlinks when possible
+ * @private
+ */
+function resolveScript(script: string): string {
+  let resolved = path.resolve(script);
+  try {
+    resolved = realpathSync(resolved);
+  } catch {
+    // Keep the unresolved path
+  }
+  return resolved;
+}
+
+/**
+ * Find the entry point of a global installation of this package
+ * @returns Path of the installed CLI script, or null if the package is not installed globally
+ * @private
+ */
+function findGlobalScript(): string | null {
+  try {
+    const root = execSync('npm root -g', { encoding: 'utf-8', timeout: NPM_TIMEOUT_MS, windowsHide: true, stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    const packageDir = path.join(root, PACKAGE_NAME);
+    const manifest = JSON.parse(readFileSync(path.join(packageDir, 'package.json'), 'utf-8')) as { bin?: string | Record<string, string> };
+    const bin = typeof manifest.bin === 'string' ? manifest.bin : manifest.bin?.[PACKAGE_NAME];
+
+    const script = bin ? path.join(packageDir, bin) : null;
+    return script && existsSync(script) ? resolveScript(script) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the command that runs this CLI from a hook
+ * @returns Command prefix without subcommand
+ */
+function getExecutable(): string {
+  if (executable) {
+    return executable;
+  }
+
+  const script = process.argv[1] ? resolveScript(process.argv[1]) : null;
+
+  // The npx cache is temporary, so hooks installed from it use a global installation or go through npx again
+  const installed = script && !script.split(path.sep).includes('_npx') ? script : findGlobalScript();
+
+  // --prefer-offline reuses the cached package instead of asking the registry on every hook
+  executable = installed ? `node "${installed.split(path.sep).join('/')}"` : `npx -y --prefer-offline ${PACKAGE_NAME}`;
+  return executable;
+}
+
+/**
+ * Check whether installed hooks start the CLI through npx
+ * @returns True if every hook pays for resolving the package with npx
+ */
+export function isHookRunThroughNpx(): boolean {
+  return getExecutable().startsWith('npx ');
+}
+
+/**
+ * Quote an argument for the shell only when it needs it
+ * @param value - Argument value
+ * @returns Argument safe to append to a command line
+ */
+function quoteArgument(value: string): string {
+  return /^[\w.-]+$/.test(value) ? value : `"${value.replace(/["\\$`%]/g, '')}"`;
+}
+
+/**
+ * Create the hook command that runs the notify subcommand for an event
+ * @param event - Claude Code hook event name (e.g., 'Stop')
+ * @param sound - Sound to play, DEFAULT_SOUND for the platform default, or null for silent
+ * @param permissionSound - Sound for permission prompts if it differs from sound
+ * @param options - Tool rule id, or failures only, for PreToolUse and PostToolUse hooks
+ * @returns Command to install in Claude settings
+ */
+export function createNotifyHookCommand(
+  event: string,
+  sound: string | null = null,
+  permissionSound: string | null = null,
+  options: NotifyHookOptions = {}
+): string {
+  const parts = [getExecutable(), 'notify', '--event', quoteArgument(event)];
+
+  if (sound) {
+    parts.push('--sound', quoteArgument(sound));
+
+    if (permissionSound && permissionSound !== sound) {
+      parts.push('--permission-sound', quoteArgument(permissionSound));
+    }
+  }
+
+  if (options.rule) {
+    parts.push('--rule', quoteArgument(options.rule));
+  }
+
+  if (options.failuresOnly) {
+    parts.push('--failures-only');
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Parse a hook command created by createNotifyHookCommand()
+ * @param command - Installed hook command
+ * @returns Parsed invocation, or null if the command does not run the notify subcommand
+ */
+export function parseNotifyHookCommand(command: string): NotifyHookCommand | null {
+  const match = /\bnotify --event (\S+)(?: --sound (?:"([^"]*)"|(\S+)))?/.exec(command);
+  if (!match?.[1]) {
+    return null;
+  }
+
+  const sound = match[2] ?? match[3] ?? null;
+  const permissionMatch = / --permission-sound (?:"([^"]*)"|(\S+))/.exec(command);
+  const ruleMatch = / --rule (?:"([^"]*)"|(\S+))/.exec(command);
+
+  return {
+    event: match[1].replace(/"/g, ''),
+    sound,
+    permissionSound: permissionMatch ? permissionMatch[1] ?? permissionMatch[2] ?? null : sound,
+    rule: ruleMatch ? ruleMatch[1] ?? ruleMatch[2] ?? null : null,
+    failuresOnly: / --failures-only\b/.test(command),
+  };
+}
+
+/**
+ * Create the hook command that records session state for a companion event
+ * @param event - Claude Code hook event name (e.g., 'UserPromptSubmit')
+ * @returns Command to install in Claude settings
+ */
+export function createTrackHookCommand(event: string): string {
+  return [getExecutable(), 'track', '--event', quoteArgument(event)].join(' ');
+}
+
+/**
+ * Identify a hook command installed by this tool
+ * @param command - Installed hook command
+ * @param hookName - Event the command is installed under
+ * @returns Key such as 'notify:Stop', 'notify:PostToolUse:failures' or 'track:SessionEnd',
+ *   or null for commands of other tools
+ */
+export function getNotifierHookKey(command: string, hookName: string): string | null {
+  const match = /\b(notify|track) --event "?([\w-]+)/.exec(command);
+  if (match) {
+    // Failure alerts share PostToolUse with tool rules but are installed and removed separately
+    return / --failures-only\b/.test(command) ? `${match[1]}:${match[2]}:failures` : `${match[1]}:${match[2]}`;
+  }
+
+  // Older versions embedded the platform command with a fixed "Claude Task ..." message
+  return command.includes('Claude Task') ? `notify:${hookName}` : null;
+}
@@ -0,0 +1,159 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, unlinkSync } from 'fs';
+import path from 'path';
+import { NotifierConfig } from '../config/notifier.js';
+import { NotificationPlatform } from '../platforms/base.js';
+import { Clock, getQuietHoursMode, systemClock } from './schedule.js';
+import { SettingsError } from '../utils/errors.js';
+import { DigestEntry, NotificationContent, QuietHoursConfig, SettingsOperation } from '../types/index.js';
+
+/**
+ * Number of queued messages listed in a digest before the rest are counted
+ */
+const DIGEST_PREVIEW_COUNT = 3;
+
+/**
+ * Queues notifications held back during quiet hours
+ */
+export class DigestQueue {
+  private readonly path: string;
+  private entries: DigestEntry[] = [];
+
+  constructor(queuePath?: string) {
+    this.path = queuePath ?? path.join(NotifierConfig.getDefaultDirectory(), 'digest.json');
+  }
+
+  /**
+   * Load queued notifications from file
+   * @returns Queued notifications, oldest first (empty if the file is missing or unreadable)
+   */
+  async load(): Promise<DigestEntry[]> {
+    this.entries = [];
+
+    try {
+      if (existsSync(this.path)) {
+        const parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as { entries?: unknown };
+        if (Array.isArray(parsed?.entries)) {
+          this.entries = parsed.entries as DigestEntry[];
+        }
+      }
+    } catch {
+      // A corrupt queue only loses held-back notifications
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Add a notification to the queue and save it
+   * @param content - Notification that was held back
+   * @param now - Time the notification was due
+   * @throws SettingsError if saving fails
+   */
+  async add(content: NotificationContent, now: Date = new Date()): Promise<void> {
+    await this.load();
+    this.entries.push({ title: content.title, message: content.message, queuedAt: now.toISOString() });
+    await this._write();
+  }
+
+  /**
+   * Remove and return every queued notification
+   * @returns Queued notifications, oldest first
+   * @throws SettingsError if the queue file cannot be removed
+   */
+  async drain(): Promise<DigestEntry[]> {
+    const entries = await this.load();
+    if (entries.length === 0) {
+      return [];
+    }
+
+    try {
+      unlinkSync(this.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to clear the digest queue: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+
+    this.entries = [];
+    return entries;
+  }
+
+  /**
+   * Get the queue file path
+   * @returns Path to queue file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Write the queue atomically
+   * @throws SettingsError if writing fails
+   * @private
+   */
+  private async _write(): Promise<void> {
+    try {
+      const dir = path.dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify({ entries: this.entries }, null, 2), 'utf-8');
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to write the digest queue: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+}
+
+/**
+ * Summarize queued notifications in a single notification
+ * @param entries - Queued notifications, oldest first
+ * @returns Digest notification (silent)
+ */
+export function buildDigestContent(entries: DigestEntry[]): NotificationContent {
+  const preview = entries.slice(-DIGEST_PREVIEW_COUNT).map(entry => entry.message);
+  const remaining = entries.length - preview.length;
+
+  return {
+    title: `Claude Code - ${entries.length} notification${entries.length === 1 ? '' : 's'} during quiet hours`,
+    message: remaining > 0 ? `${preview.join(' | ')} | +${remaining} more` : preview.join(' | '),
+    withSound: false,
+  };
+}
+
+/**
+ * Deliver the notifications held back during quiet hours, once quiet hours are over
+ * @param platform - Platform to deliver the digest with
+ * @param quietHours - Quiet hours configuration
+ * @param clock - Source of the current time
+ * @param digest - Queue of held-back notifications
+ * @returns Number of notifications summarized in the delivered digest (0 if none was due)
+ */
+export async function flushDigest(
+  platform: NotificationPlatform,
+  quietHours: QuietHoursConfig | undefined,
+  clock: Clock = systemClock,
+  digest: DigestQueue = new DigestQueue()
+): Promise<number> {
+  if (getQuietHoursMode(quietHours, clock) !== null) {
+    return 0;
+  }
+
+  const queued = await digest.drain();
+  if (queued.length > 0) {
+    await platform.send(buildDigestContent(queued));
+  }
+  return queued.length;
+}
@@ -0,0 +1,189 @@
+import { DEFAULT_SOUND, createNotifyHookCommand } from './command.js';
+import { describeToolCall, matchesToolName } from './rules.js';
+import { ClaudeHooks, FailureAlertConfig, HookPayload, HookType, ValidationResult } from '../types/index.js';
+
+/**
+ * Tools watched when failure alerts are turned on
+ */
+export const DEFAULT_FAILURE_TOOLS = ['Bash'];
+
+/**
+ * Fields of a tool response holding the exit code of a command
+ */
+const EXIT_CODE_FIELDS = ['exit_code', 'exitCode', 'returnCode', 'return_code'];
+
+/**
+ * Fields of a tool response flagging an error
+ */
+const ERROR_FLAG_FIELDS = ['is_error', 'isError'];
+
+/**
+ * Error text Claude Code reports instead of a response object, e.g. 'Error: Exit code 2'
+ */
+const ERROR_RESPONSE_PATTERN = /^(?:Error:\s*)?(?:Exit code (\d+)|Error\b)/;
+
+/**
+ * Maximum length of the error detail shown in a notification
+ */
+const ERROR_DETAIL_LENGTH = 100;
+
+/**
+ * Failed tool call found in a PostToolUse payload
+ */
+export interface ToolFailure {
+  exitCode: number | null;
+  error: string | null;
+}
+
+/**
+ * Get the text of a tool response's content, which MCP tools send as a list of content blocks
+ * @param content - Content field of a tool response
+ * @returns Text of the content, or null if there is none
+ * @private
+ */
+function getContentText(content: unknown): string | null {
+  if (typeof content === 'string') {
+    return content.trim() ? content : null;
+  }
+
+  if (!Array.isArray(content)) {
+    return null;
+  }
+
+  const text = content
+    .filter(block => block?.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text as string)
+    .join('\n');
+
+  return text.trim() ? text : null;
+}
+
+/**
+ * Check whether a PostToolUse payload reports a failed tool call
+ * @param payload - Hook payload from Claude Code
+ * @returns Exit code and error output, or null if the call succeeded or has no response
+ */
+export function detectToolFailure(payload: HookPayload): ToolFailure | null {
+  const response = payload.tool_response;
+
+  if (typeof response === 'string') {
+    const match = ERROR_RESPONSE_PATTERN.exec(response);
+    return match ? { exitCode: match[1] !== undefined ? Number(match[1]) : null, error: response } : null;
+  }
+
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    return null;
+  }
+
+  const fields = response as Record<string, unknown>;
+
+  const exitField = EXIT_CODE_FIELDS.find(key => typeof fields[key] === 'number');
+  const exitCode = exitField ? fields[exitField] as number : null;
+
+  const errorText = typeof fields['error'] === 'string' && fields['error'].trim() ? fields['error'] : null;
+  const stderr = typeof fields['stderr'] === 'string' && fields['stderr'].trim() ? fields['stderr'] : null;
+
+  // Only structured signals count: successful commands write warnings and progress to stderr too
+  const flagged = ERROR_FLAG_FIELDS.some(key => fields[key] === true)
+    || fields['success'] === false
+    || fields['interrupted'] === true;
+
+  if (!flagged && !errorText && (exitCode === null || exitCode === 0)) {
+    return null;
+  }
+
+  // Commands write the reason for failing to stderr; other tools put it in the response content
+  return { exitCode, error: errorText ?? stderr ?? getContentText(fields['content']) };
+}
+
+/**
+ * Summarize a failed tool call for the {message} placeholder
+ * @param payload - Hook payload from Claude Code
+ * @param failure - Failure found in the payload
+ * @returns Text such as 'Bash: npm test failed (exit code 1): 3 tests failed'
+ */
+export function summarizeToolFailure(payload: HookPayload, failure: ToolFailure): string {
+  const call = describeToolCall(payload) || 'Tool call';
+  const exitText = failure.exitCode !== null ? ` (exit code ${failure.exitCode})` : '';
+
+  // The last line of the output usually states why a build or test run failed
+  const detail = failure.error
+    ?.split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .pop();
+
+  if (!detail) {
+    return `${call} failed${exitText}`;
+  }
+
+  const shortDetail = detail.length > ERROR_DETAIL_LENGTH ? `${detail.slice(0, ERROR_DETAIL_LENGTH - 1)}…` : detail;
+  return `${call} failed${exitText}: ${shortDetail}`;
+}
+
+/**
+ * Check whether failure alerts cover a tool
+ * @param config - Failure alert configuration
+ * @param toolName - Name of the tool that was called
+ * @returns True if one of the watched tools matches
+ */
+export function watchesTool(config: FailureAlertConfig, toolName: string): boolean {
+  return config.tools.some(matcher => matchesToolName(matcher, toolName));
+}
+
+/**
+ * Generate the PostToolUse hook that sends failure alerts
+ * @param config - Failure alert configuration
+ * @returns Hooks with a single group matching the watched tools
+ */
+export function generateFailureAlertHooks(config: FailureAlertConfig): ClaudeHooks {
+  return {
+    PostToolUse: [
+      {
+        matcher: config.tools.includes('*') ? '*' : config.tools.join('|'),
+        hooks: [
+          {
+            type: HookType.COMMAND,
+            // Failures always play a sound so they stand out from ordinary notifications
+            command: createNotifyHookCommand('PostToolUse', config.sound ?? DEFAULT_SOUND, null, { failuresOnly: true }),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Validate failure alert settings
+ * @param config - Value to validate
+ * @returns Validation result with isValid and errors
+ */
+export function validateFailureAlerts(config: unknown): ValidationResult {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return { isValid: false, errors: ['failureAlerts must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { tools, sound } = config as Partial<FailureAlertConfig>;
+
+  if (!Array.isArray(tools) || tools.length === 0 || tools.some(tool => typeof tool !== 'string' || !tool.trim())) {
+    errors.push('tools must be a non-empty array of tool names or patterns');
+  } else {
+    for (const tool of tools) {
+      try {
+        new RegExp(tool === '*' ? '' : tool);
+      } catch {
+        errors.push(`tool pattern '${tool}' is not valid`);
+      }
+    }
+  }
+
+  if (sound !== undefined && (typeof sound !== 'string' || !sound.trim())) {
+    errors.push('sound must be a sound name');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,129 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from 'fs';
+import path from 'path';
+import { NotifierConfig } from '../config/notifier.js';
+import { SettingsError } from '../utils/errors.js';
+import { readLinesReverse } from './transcript.js';
+import { HistoryEntry, HistoryFilter, SettingsOperation } from '../types/index.js';
+
+/**
+ * Size at which the history file is rotated
+ */
+export const HISTORY_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Log of dispatched notifications, one JSON object per line
+ */
+export class NotificationHistory {
+  private readonly path: string;
+  private readonly maxBytes: number;
+
+  constructor(historyPath?: string, maxBytes: number = HISTORY_MAX_BYTES) {
+    this.path = historyPath ?? path.join(NotifierConfig.getDefaultDirectory(), 'history.jsonl');
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Append an entry, rotating the file first if it has grown too large
+   * @param entry - Dispatched notification
+   * @throws SettingsError if the history file cannot be written
+   */
+  async append(entry: HistoryEntry): Promise<void> {
+    try {
+      const dir = path.dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      // Keep one rotated file, so the history never takes more than twice the limit
+      if (existsSync(this.path) && statSync(this.path).size >= this.maxBytes) {
+        renameSync(this.path, this.getRotatedPath());
+      }
+
+      appendFileSync(this.path, `${JSON.stringify(entry)}\n`, 'utf-8');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to write notification history: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+
+  /**
+   * Read the most recent entries
+   * @param limit - Maximum number of entries to return
+   * @param filter - Project and event the entries must match
+   * @returns Matching entries, newest first (empty if there is no history)
+   */
+  async readRecent(limit: number = Infinity, filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+
+    for (const filePath of [this.path, this.getRotatedPath()]) {
+      if (!existsSync(filePath)) {
+        continue;
+      }
+
+      try {
+        for (const line of readLinesReverse(filePath, this.maxBytes * 2)) {
+          if (entries.length >= limit) {
+            return entries;
+          }
+
+          let entry: HistoryEntry;
+          try {
+            entry = JSON.parse(line) as HistoryEntry;
+          } catch {
+            // Partially written or corrupt line
+            continue;
+          }
+
+          if (entry && typeof entry === 'object' && matchesHistoryFilter(entry, filter)) {
+            entries.push(entry);
+          }
+        }
+      } catch {
+        // An unreadable file only hides its entries
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get the history file path
+   * @returns Path to history file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Get the path the history file is rotated to
+   * @returns Path to the previous history file
+   */
+  getRotatedPath(): string {
+    return `${this.path}.1`;
+  }
+}
+
+/**
+ * Get the project name of a history entry
+ * @param entry - History entry
+ * @returns Name of the project directory
+ */
+export function getHistoryProject(entry: HistoryEntry): string {
+  return path.basename(entry.cwd ?? '');
+}
+
+/**
+ * Check whether a history entry matches a filter
+ * @param entry - History entry
+ * @param filter - Project and event to match; missing criteria match everything
+ * @returns True if the entry matches
+ */
+export function matchesHistoryFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  return (!filter.project || getHistoryProject(entry) === filter.project)
+    && (!filter.event || entry.event === filter.event);
+}
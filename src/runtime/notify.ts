@@ -0,0 +1,667 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import { execFileSync } from 'child_process';
+import { NotifierConfig } from '../config/notifier.js';
+import { PlatformRegistry } from '../platforms/index.js';
+import { NotificationPlatform } from '../platforms/base.js';
+import { loadConfiguredPlatforms } from '../platforms/loader.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { readHookPayload } from './payload.js';
+import { DEFAULT_SOUND } from './command.js';
+import { SessionStore, formatDuration } from './sessions.js';
+import { createExcerpt, readLastAssistantMessage } from './transcript.js';
+import { Clock, getQuietHoursMode, systemClock } from './schedule.js';
+import { DigestQueue, flushDigest } from './digest.js';
+import { DEFAULT_RATE_LIMIT, RateLimiter, buildMergedContent, scheduleBurstDelivery } from './ratelimit.js';
+import { describeToolCall, matchesToolRule } from './rules.js';
+import { detectToolFailure, summarizeToolFailure, watchesTool } from './failure.js';
+import { NotificationHistory } from './history.js';
+import { deliverToChannels } from '../channels/index.js';
+import {
+  TemplateValues,
+  getDefaultTemplate,
+  getTemplatePlaceholders,
+  renderTemplate,
+} from './template.js';
+import {
+  ChannelMessage,
+  DeliveryResult,
+  HistoryEntry,
+  HookAction,
+  HookPayload,
+  MessageTemplate,
+  NotificationContent,
+  NotificationSeverity,
+  NotifierConfigData,
+  QuietHoursConfig,
+  QuietHoursMode,
+} from '../types/index.js';
+
+/**
+ * Maximum time to spend looking up the git branch
+ */
+const GIT_TIMEOUT_MS = 1000;
+
+/**
+ * Extra wait after a burst's window closes, so hooks joining at the last moment finish writing
+ */
+const BURST_GRACE_MS = 250;
+
+/**
+ * Options of the notify subcommand
+ */
+interface NotifyOptions {
+  event: string;
+  sound: string | null;
+  permissionSound: string | null;
+  rule: string | null;
+  failuresOnly: boolean;
+}
+
+/**
+ * How a notification is rendered
+ */
+export interface NotificationContext {
+  template?: MessageTemplate;
+  sanitize?: (value: string) => string;
+  durationMs?: number | null;
+  excerpt?: string | null;
+}
+
+/**
+ * Parse the arguments of the notify subcommand
+ * @param args - Arguments following 'notify'
+ * @returns Parsed options
+ * @throws InvalidInputError if the arguments are invalid
+ */
+export function parseNotifyArgs(args: string[]): NotifyOptions {
+  let values: {
+    event?: string | undefined;
+    sound?: string | undefined;
+    'permission-sound'?: string | undefined;
+    rule?: string | undefined;
+    'failures-only'?: boolean | undefined;
+  };
+
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        event: { type: 'string' },
+        sound: { type: 'string' },
+        'permission-sound': { type: 'string' },
+        rule: { type: 'string' },
+        'failures-only': { type: 'boolean' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new InvalidInputError(`Invalid notify arguments: ${errorMessage}`, args);
+  }
+
+  if (!values.event) {
+    throw new InvalidInputError('notify requires --event <hook event name>', args);
+  }
+
+  return {
+    event: values.event,
+    sound: values.sound ?? null,
+    permissionSound: values['permission-sound'] ?? null,
+    rule: values.rule ?? null,
+    failuresOnly: values['failures-only'] ?? false,
+  };
+}
+
+/**
+ * Classify a Notification hook message
+ * @param message - Message sent with the Notification hook
+ * @returns Whether Claude needs permission or is waiting for input
+ */
+export function classifyNotification(message: string | undefined): HookAction {
+  // Claude Code sends e.g. "Claude needs your permission to use Bash" for approval prompts
+  if (message && /\bpermission\b/i.test(message)) {
+    return HookAction.PERMISSION_NEEDED;
+  }
+
+  // Everything else ("Claude is waiting for your input") means the session is idle
+  return HookAction.WAITING_FOR_INPUT;
+}
+
+/**
+ * Map a hook event to the action shown in the notification
+ * @param event - Claude Code hook event name
+ * @param payload - Hook payload from Claude Code
+ * @returns Action describing the event
+ */
+export function getEventAction(event: string, payload: HookPayload = {}): HookAction | string {
+  switch (event) {
+    case 'Notification':
+      return classifyNotification(payload.message);
+    case 'Stop':
+      return HookAction.STOPPED;
+    case 'SubagentStop':
+      return HookAction.SUBAGENT_STOPPED;
+    case 'SessionStart':
+      return HookAction.SESSION_STARTED;
+    case 'SessionEnd':
+      return HookAction.SESSION_ENDED;
+    case 'PreCompact':
+      return HookAction.COMPACTING;
+    case 'PreToolUse':
+      return HookAction.TOOL_STARTING;
+    case 'PostToolUse':
+      return detectToolFailure(payload) ? HookAction.TOOL_FAILED : HookAction.TOOL_FINISHED;
+    default:
+      return event;
+  }
+}
+
+/**
+ * Get the current git branch of a directory
+ * @param cwd - Directory inside a git work tree
+ * @returns Branch name, or an empty string outside a repository
+ */
+function getGitBranch(cwd: string): string {
+  try {
+    return execFileSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: GIT_TIMEOUT_MS,
+    }).trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Describe the tool call of a PreToolUse or PostToolUse payload
+ * @param payload - Hook payload from Claude Code
+ * @returns Failure summary for failed calls, otherwise the call itself (empty for other events)
+ */
+function describeToolPayload(payload: HookPayload): string {
+  const failure = detectToolFailure(payload);
+  return failure ? summarizeToolFailure(payload, failure) : describeToolCall(payload);
+}
+
+/**
+ * Collect the values for template placeholders
+ * @param options - Parsed notify options
+ * @param payload - Hook payload from Claude Code
+ * @param template - Template being rendered, to skip lookups it does not need
+ * @param context - Run duration and reply excerpt, if known
+ * @returns Placeholder values
+ */
+export function collectTemplateValues(
+  options: NotifyOptions,
+  payload: HookPayload,
+  template: MessageTemplate,
+  context: Pick<NotificationContext, 'durationMs' | 'excerpt'> = {}
+): TemplateValues {
+  const { durationMs = null, excerpt = null } = context;
+
+  // Hooks run in the project directory, so fall back to it when the payload has no cwd
+  const cwd = payload.cwd ?? process.cwd();
+  const placeholders = [
+    ...getTemplatePlaceholders(template.title),
+    ...getTemplatePlaceholders(template.body),
+  ];
+
+  return {
+    project: path.basename(cwd),
+    cwd,
+    branch: placeholders.includes('branch') ? getGitBranch(cwd) : '',
+    message: payload.message ?? describeToolPayload(payload),
+    session: payload.session_id ? payload.session_id.slice(0, 8) : 'unknown',
+    event: options.event,
+    action: String(getEventAction(options.event, payload)),
+    duration: durationMs !== null ? formatDuration(durationMs) : '',
+    excerpt: excerpt ?? '',
+  };
+}
+
+/**
+ * Get how long the run that just finished took
+ * @param event - Claude Code hook event name
+ * @param payload - Hook payload from Claude Code
+ * @param store - Session state store
+ * @returns Elapsed milliseconds, or null if unknown
+ */
+export async function getRunDuration(
+  event: string,
+  payload: HookPayload,
+  store: SessionStore = new SessionStore()
+): Promise<number | null> {
+  if (event !== 'Stop' || !payload.session_id) {
+    return null;
+  }
+
+  await store.load();
+  return store.getElapsed(payload.session_id);
+}
+
+/**
+ * Get an excerpt of Claude's final reply in the run that just finished
+ * @param event - Claude Code hook event name
+ * @param payload - Hook payload from Claude Code
+ * @returns Trimmed excerpt, or null if there is none
+ */
+export async function getReplyExcerpt(event: string, payload: HookPayload): Promise<string | null> {
+  if (event !== 'Stop' || !payload.transcript_path) {
+    return null;
+  }
+
+  const message = await readLastAssistantMessage(payload.transcript_path);
+  return message ? createExcerpt(message) || null : null;
+}
+
+/**
+ * Check whether a run finished too quickly to be worth a notification
+ * @param durationMs - Elapsed time of the run, or null if unknown
+ * @param minDurationSeconds - Configured threshold in seconds
+ * @returns True if the notification should be skipped
+ */
+export function isBelowThreshold(durationMs: number | null, minDurationSeconds = 0): boolean {
+  // Without a recorded start time there is nothing to compare, so always notify
+  return durationMs !== null && minDurationSeconds > 0 && durationMs < minDurationSeconds * 1000;
+}
+
+/**
+ * Build the notification for a hook invocation
+ * @param options - Parsed notify options
+ * @param payload - Hook payload from Claude Code
+ * @param context - Template, backend-specific sanitizer and run duration
+ * @returns Notification content
+ */
+export function buildNotificationContent(
+  options: NotifyOptions,
+  payload: HookPayload,
+  context: NotificationContext = {}
+): NotificationContent {
+  const { sanitize } = context;
+  const template = context.template ?? getDefaultTemplate(getEventAction(options.event, payload), {
+    duration: context.durationMs !== undefined && context.durationMs !== null,
+    excerpt: Boolean(context.excerpt),
+  });
+  const values = collectTemplateValues(options, payload, template, context);
+
+  const content: NotificationContent = {
+    title: renderTemplate(template.title, values, sanitize).trim() || 'Claude Code',
+    message: renderTemplate(template.body, values, sanitize).trim() || `Claude Task ${values.action}!`,
+    withSound: options.sound !== null,
+  };
+
+  if (values.action === HookAction.TOOL_FAILED) {
+    content.severity = NotificationSeverity.ERROR;
+  }
+
+  const sound = values.action === HookAction.PERMISSION_NEEDED
+    ? options.permissionSound ?? options.sound
+    : options.sound;
+
+  if (sound && sound !== DEFAULT_SOUND) {
+    content.soundName = sound;
+  }
+
+  return content;
+}
+
+/**
+ * Send a notification, applying the quiet hours schedule in effect
+ * @param platform - Platform to notify with
+ * @param content - Notification content
+ * @param quietHours - Quiet hours configuration
+ * @param clock - Source of the current time
+ * @param digest - Queue for notifications held back during quiet hours
+ * @returns Whether the notification was sent, silenced, queued or dropped
+ */
+export async function dispatchNotification(
+  platform: NotificationPlatform,
+  content: NotificationContent,
+  quietHours: QuietHoursConfig | undefined,
+  clock: Clock = systemClock,
+  digest: DigestQueue = new DigestQueue()
+): Promise<QuietHoursMode | 'sent'> {
+  const mode = getQuietHoursMode(quietHours, clock);
+
+  switch (mode) {
+    case QuietHoursMode.DROP:
+      return mode;
+
+    case QuietHoursMode.DIGEST:
+      await digest.add(content, clock());
+      return mode;
+
+    case QuietHoursMode.SILENT: {
+      const { soundName: _soundName, ...silent } = content;
+      await platform.send({ ...silent, withSound: false });
+      return mode;
+    }
+
+    default: {
+      // Quiet hours are over: deliver what was held back before the new notification
+      await flushDigest(platform, quietHours, clock, digest);
+
+      await platform.send(content);
+      return 'sent';
+    }
+  }
+}
+
+/**
+ * Start the history entry of a hook invocation
+ * @param options - Parsed notify options
+ * @param payload - Hook payload from Claude Code
+ * @param durationMs - Elapsed time of the run, or null if unknown
+ * @param clock - Source of the current time
+ * @returns Entry marked as skipped, to be completed once the notification is dispatched
+ */
+function createHistoryEntry(
+  options: NotifyOptions,
+  payload: HookPayload,
+  durationMs: number | null,
+  clock: Clock
+): HistoryEntry {
+  const entry: HistoryEntry = {
+    timestamp: clock().toISOString(),
+    event: options.event,
+    action: String(getEventAction(options.event, payload)),
+    session: payload.session_id ?? null,
+    cwd: payload.cwd ?? process.cwd(),
+    title: '',
+    message: '',
+    result: 'skipped',
+    platform: '',
+  };
+
+  if (durationMs !== null) {
+    entry.durationMs = durationMs;
+  }
+
+  return entry;
+}
+
+/**
+ * Build the message delivered to remote channels
+ * @param entry - History entry of the notification
+ * @param content - Notification content
+ * @param excerpt - Excerpt of Claude's final reply, if known
+ * @returns Message with the event, project, session, text, run duration and reply excerpt
+ */
+function createChannelMessage(entry: HistoryEntry, content: NotificationContent, excerpt: string | null): ChannelMessage {
+  return {
+    event: entry.event,
+    action: entry.action,
+    project: path.basename(entry.cwd),
+    cwd: entry.cwd,
+    session: entry.session,
+    title: content.title,
+    message: content.message,
+    durationMs: entry.durationMs ?? null,
+    duration: entry.durationMs !== undefined ? formatDuration(entry.durationMs) : null,
+    excerpt,
+    severity: content.severity ?? NotificationSeverity.NORMAL,
+    timestamp: entry.timestamp,
+  };
+}
+
+/**
+ * Add a dispatched notification to the history log
+ * @param entry - History entry
+ * @param history - History log
+ */
+async function recordHistory(entry: HistoryEntry, history: NotificationHistory = new NotificationHistory()): Promise<void> {
+  try {
+    await history.append(entry);
+  } catch {
+    // The history is informational and must not turn a delivered notification into a hook error
+  }
+}
+
+/**
+ * Run the notify subcommand: read the hook payload and show a notification
+ * @param args - Arguments following 'notify'
+ * @param clock - Source of the current time
+ * @returns Process exit code
+ */
+export async function runNotify(args: string[], clock: Clock = systemClock): Promise<number> {
+  try {
+    const options = parseNotifyArgs(args);
+    const payload = await readHookPayload();
+
+    // Hooks run outside the interactive CLI, so load third-party platforms here too
+    const notifierConfig = new NotifierConfig();
+    const config = await notifierConfig.load();
+    await loadConfiguredPlatforms(config, path.dirname(notifierConfig.getPath()));
+
+    // The first hook after quiet hours delivers what was held back, even one that notifies for nothing
+    await flushDigest(PlatformRegistry.getSupportedPlatform(), config.quietHours, clock);
+
+    // Tool hooks only notify for calls their rule asks for; a deleted rule notifies for nothing
+    if (options.rule) {
+      const rule = config.toolRules?.find(item => item.id === options.rule);
+      if (!rule || !matchesToolRule(rule, payload)) {
+        return 0;
+      }
+    }
+
+    // Failure alerts stay quiet for successful calls and tools no longer watched
+    if (options.failuresOnly) {
+      const alerts = config.failureAlerts;
+      if (!alerts || !payload.tool_name || !watchesTool(alerts, payload.tool_name) || !detectToolFailure(payload)) {
+        return 0;
+      }
+    }
+
+    const durationMs = await getRunDuration(options.event, payload);
+    const entry = createHistoryEntry(options, payload, durationMs, clock);
+
+    // Skipped notifications are recorded too, so usage statistics count every task
+    if (isBelowThreshold(durationMs, config.minDurationSeconds)) {
+      await recordHistory({ ...entry, message: `Shorter than ${formatDuration((config.minDurationSeconds ?? 0) * 1000)}` });
+      return 0;
+    }
+
+    const platform = PlatformRegistry.getSupportedPlatform();
+    entry.platform = String(platform.id);
+
+    // The user is already looking at Claude Code
+    if (await platform.isTerminalFocused()) {
+      await recordHistory({ ...entry, message: 'Terminal was focused' });
+      return 0;
+    }
+
+    const context: NotificationContext = {
+      sanitize: (value) => platform.sanitizeText(value),
+      durationMs,
+      excerpt: await getReplyExcerpt(options.event, payload),
+    };
+
+    const template = config.templates?.[options.event];
+    if (template) {
+      context.template = template;
+    }
+
+    const content = buildNotificationContent(options, payload, context);
+    const excerpt = context.excerpt ?? null;
+
+    entry.title = content.title;
+    entry.message = content.message;
+
+    // Collapse repeats from one session and bursts from parallel sessions
+    if (payload.session_id) {
+      const limits = { ...DEFAULT_RATE_LIMIT, ...config.rateLimit };
+      const decision = await new RateLimiter().check({
+        sessionId: payload.session_id,
+        event: options.event,
+        action: entry.action,
+        project: platform.sanitizeText(path.basename(payload.cwd ?? process.cwd())),
+        sentAt: clock().getTime(),
+      }, limits, { entry, content, excerpt });
+
+      switch (decision.type) {
+        case 'skip':
+          await recordHistory({ ...entry, message: `Repeated within ${formatDuration(limits.dedupeWindowSeconds * 1000)}` });
+          return 0;
+
+        case 'join':
+          if (!decision.deliver) {
+            // Counted in the summary delivered by the first session that joined the burst
+            await recordHistory({ ...entry, result: 'merged' });
+            return 0;
+          }
+
+          // A background process has no terminal to write to, so wait for the summary here instead
+          if (platform.needsTerminal()) {
+            return await deliverBurstWhenDue(decision.key, config, clock, platform);
+          }
+
+          scheduleBurstDelivery(decision.key);
+          return 0;
+      }
+    }
+
+    return await deliverNotification(platform, content, entry, excerpt, config, clock);
+  } catch (error) {
+    // Never block Claude Code: report the problem and exit with a non-blocking error code
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`claude-code-task-notifier: ${errorMessage}`);
+    return 1;
+  }
+}
+
+/**
+ * Parse the arguments of the deliver-burst subcommand
+ * @param args - Arguments following 'deliver-burst'
+ * @returns Key of the burst to deliver
+ * @throws InvalidInputError if the arguments are invalid
+ */
+export function parseDeliverBurstArgs(args: string[]): string {
+  let values: { burst?: string | undefined };
+
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        burst: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new InvalidInputError(`Invalid deliver-burst arguments: ${errorMessage}`, args);
+  }
+
+  if (!values.burst) {
+    throw new InvalidInputError('deliver-burst requires --burst <key>', args);
+  }
+
+  return values.burst;
+}
+
+/**
+ * Run the deliver-burst subcommand: wait for a burst's window to close, then deliver its summary
+ * @param args - Arguments following 'deliver-burst'
+ * @param clock - Source of the current time
+ * @returns Process exit code
+ */
+export async function runDeliverBurst(args: string[], clock: Clock = systemClock): Promise<number> {
+  try {
+    const key = parseDeliverBurstArgs(args);
+
+    const notifierConfig = new NotifierConfig();
+    const config = await notifierConfig.load();
+    await loadConfiguredPlatforms(config, path.dirname(notifierConfig.getPath()));
+
+    return await deliverBurstWhenDue(key, config, clock);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`claude-code-task-notifier: ${errorMessage}`);
+    return 1;
+  }
+}
+
+/**
+ * Wait for a burst's window to close, then deliver one notification summarizing it
+ * @param key - Key of the burst
+ * @param config - Notifier configuration
+ * @param clock - Source of the current time
+ * @param platform - Platform to notify with, else the one that chose the held notification
+ * @returns Process exit code
+ * @throws Error if the platform fails to deliver the notification
+ */
+async function deliverBurstWhenDue(
+  key: string,
+  config: NotifierConfigData,
+  clock: Clock,
+  platform: NotificationPlatform | null = null
+): Promise<number> {
+  const limiter = new RateLimiter();
+
+  const pending = await limiter.getBurst(key);
+  if (!pending) {
+    return 0;
+  }
+
+  // Sessions finishing in the meantime add themselves to the burst
+  const waitMs = Math.max(0, pending.deadline - clock().getTime()) + BURST_GRACE_MS;
+  await new Promise(resolve => setTimeout(resolve, waitMs));
+
+  const burst = await limiter.takeBurst(key);
+  if (!burst?.notification) {
+    return 0;
+  }
+
+  const { entry, content, excerpt } = burst.notification;
+  const target = platform ?? PlatformRegistry.getPlatform(entry.platform) ?? PlatformRegistry.getSupportedPlatform();
+  const merged = burst.projects.length > 1 ? buildMergedContent(content, burst.action, burst.projects) : content;
+
+  return await deliverNotification(target, merged, { ...entry, title: merged.title, message: merged.message }, excerpt, config, clock);
+}
+
+/**
+ * Deliver a notification to the platform and the remote channels, and record it in the history
+ * @param platform - Platform to notify with
+ * @param content - Notification content
+ * @param entry - History entry of the notification
+ * @param excerpt - Excerpt of Claude's final reply, if known
+ * @param config - Notifier configuration
+ * @param clock - Source of the current time
+ * @returns Process exit code
+ * @throws Error if the platform fails to deliver the notification
+ */
+async function deliverNotification(
+  platform: NotificationPlatform,
+  content: NotificationContent,
+  entry: HistoryEntry,
+  excerpt: string | null,
+  config: NotifierConfigData,
+  clock: Clock
+): Promise<number> {
+  let result: DeliveryResult;
+  let dispatchError: unknown = null;
+  try {
+    result = await dispatchNotification(platform, content, config.quietHours, clock);
+  } catch (error) {
+    result = 'failed';
+    dispatchError = error;
+  }
+
+  await recordHistory({ ...entry, result });
+
+  // Remote channels follow quiet hours, but do not depend on the desktop notification succeeding
+  let channelErrors: string[] = [];
+  if (config.channels?.length && result !== QuietHoursMode.DROP && result !== QuietHoursMode.DIGEST) {
+    channelErrors = await deliverToChannels(config.channels, createChannelMessage(entry, content, excerpt));
+  }
+
+  if (dispatchError) {
+    throw dispatchError;
+  }
+
+  channelErrors.forEach(error => console.error(`claude-code-task-notifier: ${error}`));
+  return channelErrors.length > 0 ? 1 : 0;
+}
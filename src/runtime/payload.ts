@@ -0,0 +1,75 @@
+import { HookPayload } from '../types/index.js';
+
+/**
+ * Maximum time to wait for Claude Code to finish writing the payload
+ */
+const STDIN_TIMEOUT_MS = 2000;
+
+/**
+ * Read the JSON payload Claude Code pipes to hook commands
+ * @param input - Stream to read from (defaults to stdin)
+ * @param timeoutMs - Maximum time to wait for the end of the stream
+ * @returns Parsed payload, or an empty payload if none was provided
+ */
+export async function readHookPayload(
+  input: NodeJS.ReadableStream & { isTTY?: boolean } = process.stdin,
+  timeoutMs = STDIN_TIMEOUT_MS
+): Promise<HookPayload> {
+  // Run by hand from a terminal: there is no payload to wait for
+  if (input.isTTY) {
+    return {};
+  }
+
+  const content = await new Promise<string>((resolve) => {
+    const chunks: Buffer[] = [];
+    const finish = (): void => {
+      clearTimeout(timer);
+      input.removeListener('data', onData);
+      input.removeListener('end', finish);
+      input.removeListener('error', finish);
+      resolve(Buffer.concat(chunks).toString('utf-8'));
+    };
+    const onData = (chunk: Buffer | string): void => {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    };
+    const timer = setTimeout(finish, timeoutMs);
+
+    input.on('data', onData);
+    input.once('end', finish);
+    input.once('error', finish);
+  });
+
+  return parseHookPayload(content);
+}
+
+/**
+ * Parse a hook payload, ignoring malformed input and fields of the wrong type
+ * @param content - Raw payload text
+ * @returns Parsed payload
+ */
+export function parseHookPayload(content: string): HookPayload {
+  if (!content.trim()) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return {};
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+
+  const payload: HookPayload = { ...(parsed as Record<string, unknown>) };
+
+  for (const field of ['session_id', 'cwd', 'transcript_path', 'message', 'hook_event_name'] as const) {
+    if (payload[field] !== undefined && typeof payload[field] !== 'string') {
+      delete payload[field];
+    }
+  }
+
+  return payload;
+}
@@ -0,0 +1,354 @@
+import { spawn } from 'child_process';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, openSync, closeSync, statSync, unlinkSync } from 'fs';
+import path from 'path';
+import { NotifierConfig } from '../config/notifier.js';
+import { SettingsError } from '../utils/errors.js';
+import {
+  HeldNotification,
+  HookAction,
+  NotificationContent,
+  PendingBurst,
+  RateLimitConfig,
+  RateLimitEntry,
+  SettingsOperation,
+  ValidationResult,
+} from '../types/index.js';
+
+/**
+ * Limits used when none are configured
+ */
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  dedupeWindowSeconds: 30,
+  mergeWindowSeconds: 10,
+};
+
+/**
+ * Subcommand that delivers a held-back burst in the background
+ */
+export const DELIVER_BURST_COMMAND = 'deliver-burst';
+
+/**
+ * Time after its deadline at which a burst nobody delivered is forgotten
+ */
+const STALE_BURST_MS = 60 * 1000;
+
+/**
+ * Age at which a lock left behind by a crashed hook is broken
+ */
+const STALE_LOCK_MS = 5000;
+
+/**
+ * Pause between attempts to take the lock
+ */
+const LOCK_RETRY_MS = 10;
+
+/**
+ * Outcome of checking a notification against the rate limits.
+ * A notification joining a burst is left to the summary; the first one to join delivers it
+ */
+export type RateLimitDecision =
+  | { type: 'send' }
+  | { type: 'skip' }
+  | { type: 'join'; key: string; deadline: number; deliver: boolean };
+
+/**
+ * Wording for merged notifications, by action
+ */
+const MERGED_WORDING: Partial<Record<HookAction, string>> = {
+  [HookAction.STOPPED]: 'tasks finished',
+  [HookAction.PERMISSION_NEEDED]: 'sessions need permission',
+  [HookAction.WAITING_FOR_INPUT]: 'sessions are waiting for input',
+  [HookAction.SUBAGENT_STOPPED]: 'subagents finished',
+  [HookAction.SESSION_STARTED]: 'sessions started',
+  [HookAction.SESSION_ENDED]: 'sessions ended',
+  [HookAction.COMPACTING]: 'sessions are compacting context',
+  [HookAction.TOOL_STARTING]: 'sessions are running a tool',
+  [HookAction.TOOL_FINISHED]: 'sessions ran a tool',
+  [HookAction.TOOL_FAILED]: 'sessions hit a failing tool call',
+};
+
+/**
+ * Remembers recent notifications of all sessions to collapse bursts
+ */
+export class RateLimiter {
+  private readonly path: string;
+  private entries: RateLimitEntry[] = [];
+  private bursts: PendingBurst[] = [];
+
+  constructor(statePath?: string) {
+    this.path = statePath ?? path.join(NotifierConfig.getDefaultDirectory(), 'ratelimit.json');
+  }
+
+  /**
+   * Load recent notifications from file
+   * @returns Recent notifications (empty if the file is missing or unreadable)
+   */
+  async load(): Promise<RateLimitEntry[]> {
+    this.entries = [];
+    this.bursts = [];
+
+    try {
+      if (existsSync(this.path)) {
+        const parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as { entries?: unknown; bursts?: unknown };
+        if (Array.isArray(parsed?.entries)) {
+          this.entries = parsed.entries as RateLimitEntry[];
+        }
+        if (Array.isArray(parsed?.bursts)) {
+          this.bursts = parsed.bursts as PendingBurst[];
+        }
+      }
+    } catch {
+      // State is disposable: start over rather than failing the hook
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Check a notification against the limits and remember it unless it is skipped
+   * @param entry - Notification about to be sent
+   * @param limits - Configured limits
+   * @param notification - Notification to summarize the burst with if it is the first to join one
+   * @returns Whether to send or skip the notification, or leave it to the summary of the burst it joined
+   * @throws SettingsError if the state file cannot be written
+   */
+  async check(
+    entry: RateLimitEntry,
+    limits: RateLimitConfig = DEFAULT_RATE_LIMIT,
+    notification: HeldNotification | null = null
+  ): Promise<RateLimitDecision> {
+    return await this._withLock<RateLimitDecision>(async () => {
+      await this.load();
+
+      const dedupeMs = limits.dedupeWindowSeconds * 1000;
+      const mergeMs = limits.mergeWindowSeconds * 1000;
+
+      // Forget notifications no window can reach any more, and bursts nobody delivered
+      const horizon = entry.sentAt - Math.max(dedupeMs, mergeMs);
+      this.entries = this.entries.filter(previous => previous.sentAt >= horizon && previous.sentAt <= entry.sentAt);
+      this.bursts = this.bursts.filter(burst => entry.sentAt < burst.deadline + STALE_BURST_MS);
+
+      if (dedupeMs > 0 && this.entries.some(previous => previous.event === entry.event
+        && previous.action === entry.action && previous.sessionId === entry.sessionId
+        && entry.sentAt - previous.sentAt < dedupeMs)) {
+        return { type: 'skip' };
+      }
+
+      this.entries.push(entry);
+
+      let decision: RateLimitDecision = { type: 'send' };
+      if (mergeMs > 0 && notification) {
+        const open = this.bursts.find(burst =>
+          burst.event === entry.event && burst.action === entry.action && entry.sentAt < burst.deadline);
+
+        if (open) {
+          // One project per session, in the order they finished
+          if (!open.sessions.includes(entry.sessionId)) {
+            open.sessions.push(entry.sessionId);
+            open.projects.push(entry.project);
+          }
+
+          const deliver = open.notification === null;
+          if (deliver) {
+            open.notification = notification;
+          }
+          decision = { type: 'join', key: open.key, deadline: open.deadline, deliver };
+        } else {
+          // The first notification goes out at once; only the ones following it wait for the summary
+          const deadline = entry.sentAt + mergeMs;
+          this.bursts.push({
+            key: `${entry.event}-${deadline}`,
+            event: entry.event,
+            action: entry.action,
+            deadline,
+            sessions: [entry.sessionId],
+            projects: [entry.project],
+            notification: null,
+          });
+        }
+      }
+
+      await this._write();
+      return decision;
+    });
+  }
+
+  /**
+   * Get a pending burst without removing it
+   * @param key - Key of the burst
+   * @returns Pending burst, or null if it was delivered or forgotten
+   */
+  async getBurst(key: string): Promise<PendingBurst | null> {
+    await this.load();
+    return this.bursts.find(burst => burst.key === key) ?? null;
+  }
+
+  /**
+   * Remove a pending burst so it is delivered exactly once
+   * @param key - Key of the burst
+   * @returns Pending burst, or null if it was already taken or forgotten
+   * @throws SettingsError if the state file cannot be written
+   */
+  async takeBurst(key: string): Promise<PendingBurst | null> {
+    return await this._withLock(async () => {
+      const burst = await this.getBurst(key);
+      if (!burst) {
+        return null;
+      }
+
+      this.bursts = this.bursts.filter(item => item !== burst);
+      await this._write();
+      return burst;
+    });
+  }
+
+  /**
+   * Get the state file path
+   * @returns Path to state file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Run a read-modify-write of the state while holding a lockfile, so parallel hooks do not overwrite each other
+   * @param action - Work to do under the lock
+   * @returns Result of the action
+   * @throws SettingsError if the lock cannot be created
+   * @private
+   */
+  private async _withLock<T>(action: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.path}.lock`;
+
+    for (;;) {
+      try {
+        const dir = path.dirname(this.path);
+        if (!existsSync(dir)) {
+          mkdirSync(dir, { recursive: true });
+        }
+
+        closeSync(openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new SettingsError(
+            `Failed to lock rate limit state: ${errorMessage}`,
+            SettingsOperation.WRITE,
+            lockPath,
+            { originalError: errorMessage }
+          );
+        }
+      }
+
+      // A hook that crashed while holding the lock must not block every later one
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+          unlinkSync(lockPath);
+          continue;
+        }
+      } catch {
+        // Released in the meantime
+        continue;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+      return await action();
+    } finally {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already broken as stale
+      }
+    }
+  }
+
+  /**
+   * Write the state atomically
+   * @throws SettingsError if writing fails
+   * @private
+   */
+  private async _write(): Promise<void> {
+    try {
+      const dir = path.dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify({ entries: this.entries, bursts: this.bursts }, null, 2), 'utf-8');
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to write rate limit state: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+}
+
+/**
+ * Start a background process that delivers the summary of a burst once its window closes.
+ * The process has no terminal, so platforms writing to the terminal deliver from the hook instead
+ * @param key - Key of the pending burst
+ */
+export function scheduleBurstDelivery(key: string): void {
+  // Detached, so the hook exits at once and Claude Code is not held up by the merge window
+  const child = spawn(process.execPath, [process.argv[1] ?? '', DELIVER_BURST_COMMAND, '--burst', key], {
+    detached: true,
+    stdio: 'ignore',
+    windowsHide: true,
+  });
+  child.unref();
+}
+
+/**
+ * Build the notification that stands in for a burst from several sessions
+ * @param content - Notification of the first session that joined the burst
+ * @param action - Action shared by the merged notifications
+ * @param projects - Project names of the sessions, in order
+ * @returns Merged notification, keeping the sound of that notification
+ */
+export function buildMergedContent(
+  content: NotificationContent,
+  action: HookAction | string,
+  projects: string[]
+): NotificationContent {
+  const wording = MERGED_WORDING[action as HookAction] ?? `sessions: ${action}`;
+
+  return {
+    ...content,
+    title: 'Claude Code',
+    message: `${projects.length} Claude ${wording}: ${projects.join(', ')}`,
+  };
+}
+
+/**
+ * Validate rate limit settings
+ * @param config - Value to validate
+ * @returns Validation result with isValid and errors
+ */
+export function validateRateLimit(config: unknown): ValidationResult {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return { isValid: false, errors: ['rateLimit must be an object'] };
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(DEFAULT_RATE_LIMIT) as (keyof RateLimitConfig)[]) {
+    const value = (config as Partial<RateLimitConfig>)[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push(`${key} must be a non-negative number of seconds`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
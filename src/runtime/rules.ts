@@ -0,0 +1,185 @@
+import { createNotifyHookCommand } from './command.js';
+import { ClaudeHooks, HookPayload, HookType, ToolRule, ValidationResult } from '../types/index.js';
+
+/**
+ * Hook events that run around tool calls and accept a tool matcher
+ */
+export const TOOL_EVENTS = ['PreToolUse', 'PostToolUse'] as const;
+
+/**
+ * Tool input fields that describe a call better than the whole input
+ */
+const TOOL_INPUT_FIELDS = ['command', 'file_path', 'notebook_path', 'path', 'url', 'pattern', 'query'];
+
+/**
+ * Maximum length of a tool call description shown in a notification
+ */
+const TOOL_DESCRIPTION_LENGTH = 120;
+
+/**
+ * Check whether a tool name matches a hook matcher the way Claude Code does
+ * @param matcher - Tool name or regular expression such as 'Edit|Write'; empty or '*' matches every tool
+ * @param toolName - Name of the tool being called
+ * @returns True if the matcher selects the tool
+ */
+export function matchesToolName(matcher: string, toolName: string): boolean {
+  if (matcher === '' || matcher === '*') {
+    return true;
+  }
+
+  try {
+    return new RegExp(`^(?:${matcher})$`).test(toolName);
+  } catch {
+    return matcher === toolName;
+  }
+}
+
+/**
+ * Get the text of a tool call that rule patterns are matched against
+ * @param toolInput - tool_input from the hook payload
+ * @returns The command, file path or similar field, or the whole input as JSON
+ */
+export function getToolInputText(toolInput: unknown): string {
+  if (typeof toolInput === 'string') {
+    return toolInput;
+  }
+
+  if (!toolInput || typeof toolInput !== 'object') {
+    return '';
+  }
+
+  const input = toolInput as Record<string, unknown>;
+  const field = TOOL_INPUT_FIELDS.find(key => typeof input[key] === 'string');
+
+  return field ? input[field] as string : JSON.stringify(input);
+}
+
+/**
+ * Check whether a tool call from a hook payload is covered by a rule
+ * @param rule - Tool rule
+ * @param payload - Hook payload from Claude Code
+ * @returns True if the tool name matches and the input contains the rule's pattern
+ */
+export function matchesToolRule(rule: ToolRule, payload: HookPayload): boolean {
+  if (!payload.tool_name || !matchesToolName(rule.matcher, payload.tool_name)) {
+    return false;
+  }
+
+  if (!rule.pattern) {
+    return true;
+  }
+
+  // Match the whole input too, so a pattern can target any argument of the call
+  const input = payload.tool_input;
+  return getToolInputText(input).includes(rule.pattern)
+    || (typeof input === 'object' && input !== null && JSON.stringify(input).includes(rule.pattern));
+}
+
+/**
+ * Describe a tool call for the {message} placeholder
+ * @param payload - Hook payload from Claude Code
+ * @returns Text such as 'Bash: git push', or an empty string if the payload has no tool call
+ */
+export function describeToolCall(payload: HookPayload): string {
+  if (!payload.tool_name) {
+    return '';
+  }
+
+  const text = getToolInputText(payload.tool_input).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return payload.tool_name;
+  }
+
+  const description = `${payload.tool_name}: ${text}`;
+  return description.length > TOOL_DESCRIPTION_LENGTH
+    ? `${description.slice(0, TOOL_DESCRIPTION_LENGTH - 1)}…`
+    : description;
+}
+
+/**
+ * Describe a rule for display
+ * @param rule - Tool rule
+ * @returns Text such as 'Before Bash runs, when the input contains "git push"'
+ */
+export function formatToolRule(rule: ToolRule): string {
+  const tool = rule.matcher === '' || rule.matcher === '*' ? 'any tool' : rule.matcher;
+  const timing = rule.event === 'PreToolUse' ? `Before ${tool} runs` : `After ${tool} succeeds`;
+  return rule.pattern ? `${timing}, when the input contains "${rule.pattern}"` : timing;
+}
+
+/**
+ * Generate the hooks for tool rules, one group per rule so Claude Code applies each matcher
+ * @param rules - Configured tool rules
+ * @returns Hooks keyed by event; events without rules get an empty list
+ */
+export function generateToolRuleHooks(rules: ToolRule[]): ClaudeHooks {
+  const hooks: ClaudeHooks = {};
+
+  for (const event of TOOL_EVENTS) {
+    hooks[event] = rules
+      .filter(rule => rule.event === event)
+      .map(rule => ({
+        matcher: rule.matcher,
+        hooks: [
+          {
+            type: HookType.COMMAND,
+            command: createNotifyHookCommand(event, null, null, { rule: rule.id }),
+          },
+        ],
+      }));
+  }
+
+  return hooks;
+}
+
+/**
+ * Validate tool rules
+ * @param rules - Value to validate
+ * @returns Validation result with isValid and errors
+ */
+export function validateToolRules(rules: unknown): ValidationResult {
+  if (!Array.isArray(rules)) {
+    return { isValid: false, errors: ['toolRules must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  rules.forEach((rule: Partial<ToolRule>, index) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`rule ${index + 1} must be an object`);
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || !/^[\w-]+$/.test(rule.id)) {
+      errors.push(`rule ${index + 1} id must contain only letters, digits, '-' and '_'`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`rule ${index + 1} id '${rule.id}' is used more than once`);
+    } else {
+      ids.add(rule.id);
+    }
+
+    if (!TOOL_EVENTS.includes(rule.event as typeof TOOL_EVENTS[number])) {
+      errors.push(`rule ${index + 1} event must be one of: ${TOOL_EVENTS.join(', ')}`);
+    }
+
+    if (typeof rule.matcher !== 'string') {
+      errors.push(`rule ${index + 1} matcher must be a tool name or pattern`);
+    } else {
+      try {
+        new RegExp(rule.matcher === '*' ? '' : rule.matcher);
+      } catch {
+        errors.push(`rule ${index + 1} matcher is not a valid pattern`);
+      }
+    }
+
+    if (rule.pattern !== undefined && typeof rule.pattern !== 'string') {
+      errors.push(`rule ${index + 1} pattern must be text`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
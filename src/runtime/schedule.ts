@@ -0,0 +1,150 @@
+import { QuietHoursConfig, QuietHoursMode, QuietHoursRange, ValidationResult } from '../types/index.js';
+
+/**
+ * Source of the current time, replaceable so schedules can be evaluated at any moment
+ */
+export type Clock = () => Date;
+
+/**
+ * Clock reading the system time
+ */
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Short weekday names, indexed like Date.getDay()
+ */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Matches a 24-hour HH:MM time
+ */
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Convert a HH:MM time to minutes after midnight
+ * @param time - Time in 24-hour HH:MM format
+ * @returns Minutes after midnight, or null if the time is invalid
+ */
+export function parseTime(time: string): number | null {
+  const match = TIME_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Check whether a moment falls inside a quiet hours range
+ * @param range - Weekdays and time span; a span ending before it starts runs past midnight
+ * @param now - Moment to check, in local time
+ * @returns True if the moment is inside the range
+ */
+export function isInRange(range: QuietHoursRange, now: Date): boolean {
+  const start = parseTime(range.start);
+  const end = parseTime(range.end);
+  if (start === null || end === null) {
+    return false;
+  }
+
+  const day = now.getDay();
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  if (start === end) {
+    // Equal start and end mean the whole day
+    return range.days.includes(day);
+  }
+
+  if (start < end) {
+    return range.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight spans belong to the weekday they start on
+  const previousDay = (day + 6) % 7;
+  return (range.days.includes(day) && minutes >= start) || (range.days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * Get how notifications should be handled at a given moment
+ * @param config - Quiet hours configuration
+ * @param clock - Source of the current time
+ * @returns Quiet hours mode in effect, or null if notifications are delivered normally
+ */
+export function getQuietHoursMode(
+  config: QuietHoursConfig | undefined,
+  clock: Clock = systemClock
+): QuietHoursMode | null {
+  if (!config?.enabled) {
+    return null;
+  }
+
+  const now = clock();
+  return config.ranges.some(range => isInRange(range, now)) ? config.mode : null;
+}
+
+/**
+ * Describe a quiet hours range for display
+ * @param range - Quiet hours range
+ * @returns Text such as 'Mon-Fri 22:00-07:00'
+ */
+export function formatQuietHoursRange(range: QuietHoursRange): string {
+  const days = [...range.days].sort((a, b) => a - b);
+  const isSequence = days.length > 2 && days.every((day, index) => index === 0 || day === days[index - 1]! + 1);
+
+  let dayText: string;
+  if (days.length === 7) {
+    dayText = 'Every day';
+  } else if (isSequence) {
+    dayText = `${WEEKDAY_NAMES[days[0]!]}-${WEEKDAY_NAMES[days[days.length - 1]!]}`;
+  } else {
+    dayText = days.map(day => WEEKDAY_NAMES[day]).join(', ');
+  }
+
+  return `${dayText} ${range.start}-${range.end}`;
+}
+
+/**
+ * Validate a quiet hours configuration
+ * @param config - Value to validate
+ * @returns Validation result with isValid and errors
+ */
+export function validateQuietHours(config: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return { isValid: false, errors: ['quietHours must be an object'] };
+  }
+
+  const { enabled, mode, ranges } = config as Partial<QuietHoursConfig>;
+
+  if (typeof enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+
+  if (!Object.values(QuietHoursMode).includes(mode as QuietHoursMode)) {
+    errors.push(`mode must be one of: ${Object.values(QuietHoursMode).join(', ')}`);
+  }
+
+  if (!Array.isArray(ranges)) {
+    errors.push('ranges must be an array');
+  } else {
+    ranges.forEach((range: Partial<QuietHoursRange>, index) => {
+      if (!range || typeof range !== 'object') {
+        errors.push(`range ${index + 1} must be an object`);
+        return;
+      }
+
+      if (!Array.isArray(range.days) || range.days.length === 0
+        || range.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        errors.push(`range ${index + 1} days must be weekday numbers from 0 (Sunday) to 6 (Saturday)`);
+      }
+
+      for (const key of ['start', 'end'] as const) {
+        if (typeof range[key] !== 'string' || parseTime(range[key]) === null) {
+          errors.push(`range ${index + 1} ${key} must be a HH:MM time`);
+        }
+      }
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,150 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import path from 'path';
+import { NotifierConfig } from '../config/notifier.js';
+import { SettingsError } from '../utils/errors.js';
+import { SessionState, SessionStateData, SettingsOperation } from '../types/index.js';
+
+/**
+ * Sessions older than this are dropped, in case their SessionEnd hook never ran
+ */
+const STALE_SESSION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stores per-session state shared between hook invocations
+ */
+export class SessionStore {
+  private readonly path: string;
+  private data: SessionStateData = { sessions: {} };
+
+  constructor(statePath?: string) {
+    this.path = statePath ?? path.join(NotifierConfig.getDefaultDirectory(), 'sessions.json');
+  }
+
+  /**
+   * Load session state from file
+   * @returns The loaded state (empty if the file is missing or unreadable)
+   */
+  async load(): Promise<SessionStateData> {
+    this.data = { sessions: {} };
+
+    try {
+      if (existsSync(this.path)) {
+        const parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<SessionStateData>;
+        if (parsed && typeof parsed.sessions === 'object' && parsed.sessions !== null) {
+          this.data = { sessions: parsed.sessions };
+        }
+      }
+    } catch {
+      // State is disposable: start over rather than failing the hook
+    }
+
+    return this.data;
+  }
+
+  /**
+   * Save session state to file
+   * @throws SettingsError if saving fails
+   */
+  async save(): Promise<void> {
+    try {
+      const dir = path.dirname(this.path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      // Hooks of concurrent sessions may write at the same time, so replace the file atomically
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(this.data, null, 2), 'utf-8');
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SettingsError(
+        `Failed to write session state: ${errorMessage}`,
+        SettingsOperation.WRITE,
+        this.path,
+        { originalError: errorMessage }
+      );
+    }
+  }
+
+  /**
+   * Record the start of a run in a session
+   * @param sessionId - Claude Code session id
+   * @param now - Current time in milliseconds
+   */
+  start(sessionId: string, now: number = Date.now()): void {
+    this._pruneStale(now);
+    this.data.sessions[sessionId] = { ...this.data.sessions[sessionId], startedAt: now };
+  }
+
+  /**
+   * Forget a session
+   * @param sessionId - Claude Code session id
+   */
+  end(sessionId: string): void {
+    delete this.data.sessions[sessionId];
+  }
+
+  /**
+   * Get the state of a session
+   * @param sessionId - Claude Code session id
+   * @returns Session state, or null if the session is unknown
+   */
+  get(sessionId: string): SessionState | null {
+    return this.data.sessions[sessionId] ?? null;
+  }
+
+  /**
+   * Get how long the current run of a session has taken
+   * @param sessionId - Claude Code session id
+   * @param now - Current time in milliseconds
+   * @returns Elapsed milliseconds, or null if the start was not recorded
+   */
+  getElapsed(sessionId: string, now: number = Date.now()): number | null {
+    const startedAt = this.get(sessionId)?.startedAt;
+    return typeof startedAt === 'number' && startedAt <= now ? now - startedAt : null;
+  }
+
+  /**
+   * Get the state file path
+   * @returns Path to state file
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Drop sessions that have not started a run for a long time
+   * @param now - Current time in milliseconds
+   * @private
+   */
+  private _pruneStale(now: number): void {
+    for (const [sessionId, state] of Object.entries(this.data.sessions)) {
+      if (typeof state?.startedAt !== 'number' || now - state.startedAt > STALE_SESSION_MS) {
+        delete this.data.sessions[sessionId];
+      }
+    }
+  }
+}
+
+/**
+ * Format a duration for display
+ * @param ms - Duration in milliseconds
+ * @returns Compact duration such as '45s', '4m12s' or '1h05m'
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h${String(minutes).padStart(2, '0')}m`;
+  }
+
+  if (minutes > 0) {
+    return `${minutes}m${String(seconds).padStart(2, '0')}s`;
+  }
+
+  return `${seconds}s`;
+}
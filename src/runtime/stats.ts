@@ -0,0 +1,217 @@
+import { parseArgs } from 'util';
+import { Terminal } from '../cli/terminal.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { NotificationHistory, getHistoryProject } from './history.js';
+import { formatDuration } from './sessions.js';
+import { DailyUsage, HistoryEntry, HookAction, ProjectUsage, UsageStats } from '../types/index.js';
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options of the stats subcommand
+ */
+interface StatsOptions {
+  json: boolean;
+  days: number | null;
+}
+
+/**
+ * Parse the arguments of the stats subcommand
+ * @param args - Arguments following 'stats'
+ * @returns Parsed options
+ * @throws InvalidInputError if the arguments are invalid
+ */
+export function parseStatsArgs(args: string[]): StatsOptions {
+  let values: { json?: boolean | undefined; days?: string | undefined };
+
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        json: { type: 'boolean' },
+        days: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new InvalidInputError(`Invalid stats arguments: ${errorMessage}`, args);
+  }
+
+  const days = values.days !== undefined ? Number(values.days) : null;
+  if (days !== null && (!Number.isInteger(days) || days <= 0)) {
+    throw new InvalidInputError('--days must be a positive whole number', args);
+  }
+
+  return {
+    json: values.json ?? false,
+    days,
+  };
+}
+
+/**
+ * Compute a percentile with linear interpolation between the closest values
+ * @param values - Values to summarize
+ * @param percent - Percentile from 0 to 100
+ * @returns Percentile, or null if there are no values
+ */
+export function percentile(values: number[], percent: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * (percent / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+/**
+ * Get the local calendar day of a timestamp
+ * @param timestamp - ISO timestamp
+ * @returns Date such as '2025-03-14', or null if the timestamp is invalid
+ */
+function getLocalDate(timestamp: string): string | null {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Aggregate history entries into usage statistics
+ * @param entries - History entries, in any order
+ * @param now - Time the report is generated
+ * @param days - Only count the last number of days, or null for the whole history
+ * @returns Tasks per day, and durations and permission requests per project
+ */
+export function computeUsageStats(entries: HistoryEntry[], now: Date = new Date(), days: number | null = null): UsageStats {
+  const since = days !== null ? new Date(now.getTime() - days * DAY_MS) : null;
+
+  const daily = new Map<string, DailyUsage>();
+  const projects = new Map<string, { tasks: number; durations: number[]; permissionRequests: number }>();
+  let totalTasks = 0;
+  let totalPermissionRequests = 0;
+
+  for (const entry of entries) {
+    // Each Stop is a finished task; each permission prompt is a session waiting on the user
+    const isTask = entry.event === 'Stop';
+    const isPermissionRequest = entry.action === HookAction.PERMISSION_NEEDED;
+    const date = getLocalDate(entry.timestamp);
+
+    if ((!isTask && !isPermissionRequest) || !date || (since && new Date(entry.timestamp) < since)) {
+      continue;
+    }
+
+    const day = daily.get(date) ?? { date, tasks: 0, permissionRequests: 0 };
+    const projectName = getHistoryProject(entry);
+    const project = projects.get(projectName) ?? { tasks: 0, durations: [], permissionRequests: 0 };
+
+    if (isTask) {
+      day.tasks++;
+      project.tasks++;
+      totalTasks++;
+
+      if (typeof entry.durationMs === 'number') {
+        project.durations.push(entry.durationMs);
+      }
+    } else {
+      day.permissionRequests++;
+      project.permissionRequests++;
+      totalPermissionRequests++;
+    }
+
+    daily.set(date, day);
+    projects.set(projectName, project);
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    since: since ? since.toISOString() : null,
+    totalTasks,
+    totalPermissionRequests,
+    days: [...daily.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    projects: [...projects.entries()]
+      .map(([project, usage]): ProjectUsage => ({
+        project,
+        tasks: usage.tasks,
+        timedTasks: usage.durations.length,
+        medianDurationMs: percentile(usage.durations, 50),
+        p95DurationMs: percentile(usage.durations, 95),
+        permissionRequests: usage.permissionRequests,
+        permissionRequestsPerTask: usage.tasks > 0 ? usage.permissionRequests / usage.tasks : null,
+      }))
+      .sort((a, b) => b.tasks - a.tasks || a.project.localeCompare(b.project)),
+  };
+}
+
+/**
+ * Print usage statistics as tables
+ * @param stats - Usage statistics
+ */
+export function printUsageStats(stats: UsageStats): void {
+  const range = stats.since ? `since ${getLocalDate(stats.since)}` : 'all recorded history';
+  console.log(`\n📊 Usage Statistics (${range})`);
+  console.log(`   ${stats.totalTasks} task(s), ${stats.totalPermissionRequests} permission request(s)`);
+
+  if (stats.days.length === 0) {
+    console.log('\nNo tasks recorded yet. Statistics are built from the notification history.');
+    return;
+  }
+
+  const duration = (ms: number | null): string => (ms === null ? '-' : formatDuration(ms));
+
+  console.log('\nTasks per day');
+  Terminal.printTable(
+    ['Date', 'Tasks', 'Permission requests'],
+    stats.days.map(day => [day.date, String(day.tasks), String(day.permissionRequests)]),
+    [1, 2]
+  );
+
+  console.log('\nProjects');
+  Terminal.printTable(
+    ['Project', 'Tasks', 'Median', 'p95', 'Permission requests', 'Per task'],
+    stats.projects.map(project => [
+      project.project,
+      String(project.tasks),
+      duration(project.medianDurationMs),
+      duration(project.p95DurationMs),
+      String(project.permissionRequests),
+      project.permissionRequestsPerTask === null ? '-' : project.permissionRequestsPerTask.toFixed(2),
+    ]),
+    [1, 2, 3, 4, 5]
+  );
+}
+
+/**
+ * Run the stats subcommand: print usage statistics, or export them as JSON
+ * @param args - Arguments following 'stats'
+ * @returns Process exit code
+ */
+export async function runStats(args: string[]): Promise<number> {
+  try {
+    const options = parseStatsArgs(args);
+    const entries = await new NotificationHistory().readRecent();
+    const stats = computeUsageStats(entries, new Date(), options.days);
+
+    if (options.json) {
+      console.log(JSON.stringify(stats, null, 2));
+    } else {
+      printUsageStats(stats);
+    }
+    return 0;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`claude-code-task-notifier: ${errorMessage}`);
+    return 1;
+  }
+}
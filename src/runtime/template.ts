@@ -0,0 +1,194 @@
+import { HookAction, ValidationResult, MessageTemplate } from '../types/index.js';
+
+/**
+ * Placeholders that can be used in message templates
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  'project', 'cwd', 'branch', 'message', 'session', 'event', 'action', 'duration', 'excerpt',
+] as const;
+
+/**
+ * Name of a supported template placeholder
+ */
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+/**
+ * Values substituted into a template
+ */
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+/**
+ * Template used when no template is configured for an event
+ */
+export const DEFAULT_TEMPLATE: MessageTemplate = {
+  title: 'Claude Code - {project}',
+  body: 'Claude Task {action}! Session {session}',
+};
+
+/**
+ * Starting point offered when customizing Notification messages, which cover permission and idle prompts
+ */
+export const NOTIFICATION_TEMPLATE: MessageTemplate = {
+  title: 'Claude Code - {project}',
+  body: '{action}: {message}',
+};
+
+/**
+ * Default wording for actions that should not read like a finished task
+ */
+const ACTION_TEMPLATES: Partial<Record<HookAction, MessageTemplate>> = {
+  [HookAction.PERMISSION_NEEDED]: {
+    title: 'Claude Code - {project}',
+    body: 'Permission needed: {message}',
+  },
+  [HookAction.WAITING_FOR_INPUT]: {
+    title: 'Claude Code - {project}',
+    body: 'Claude is waiting for your input. Session {session}',
+  },
+  [HookAction.SUBAGENT_STOPPED]: {
+    title: 'Claude Code - {project}',
+    body: 'A subagent finished its task. Session {session}',
+  },
+  [HookAction.SESSION_STARTED]: {
+    title: 'Claude Code - {project}',
+    body: 'Session {session} started',
+  },
+  [HookAction.SESSION_ENDED]: {
+    title: 'Claude Code - {project}',
+    body: 'Session {session} ended',
+  },
+  [HookAction.COMPACTING]: {
+    title: 'Claude Code - {project}',
+    body: 'Compacting the conversation context. Session {session}',
+  },
+  [HookAction.TOOL_STARTING]: {
+    title: 'Claude Code - {project}',
+    body: 'Claude is running {message}',
+  },
+  [HookAction.TOOL_FINISHED]: {
+    title: 'Claude Code - {project}',
+    body: 'Claude ran {message}',
+  },
+  [HookAction.TOOL_FAILED]: {
+    title: 'Claude Code needs attention - {project}',
+    body: '{message}',
+  },
+};
+
+/**
+ * Default wording for finished runs whose start time was recorded
+ */
+const DURATION_TEMPLATE: MessageTemplate = {
+  title: 'Claude Code - {project}',
+  body: 'Claude Task {action}, took {duration}. Session {session}',
+};
+
+/**
+ * Default wording for finished runs that end with a reply from Claude, without and with the duration
+ */
+const EXCERPT_TEMPLATES: [MessageTemplate, MessageTemplate] = [
+  { title: 'Claude Task {action} - {project}', body: '{excerpt}' },
+  { title: 'Claude Task {action} - {project}', body: 'Took {duration}: {excerpt}' },
+];
+
+/**
+ * Get the template used when none is configured
+ * @param action - Action the notification reports
+ * @param available - Which optional values are known for this notification
+ * @returns Default template for the action
+ */
+export function getDefaultTemplate(
+  action: HookAction | string,
+  available: { duration?: boolean; excerpt?: boolean } = {}
+): MessageTemplate {
+  if (action === HookAction.STOPPED) {
+    if (available.excerpt) {
+      return EXCERPT_TEMPLATES[available.duration ? 1 : 0];
+    }
+
+    if (available.duration) {
+      return DURATION_TEMPLATE;
+    }
+  }
+
+  return ACTION_TEMPLATES[action as HookAction] ?? DEFAULT_TEMPLATE;
+}
+
+/**
+ * Matches a {placeholder} in a template
+ */
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * List the placeholders used in a template
+ * @param template - Template text
+ * @returns Placeholder names in order of appearance
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1] ?? '');
+}
+
+/**
+ * Validate a single template string
+ * @param template - Template text
+ * @returns Validation result listing unknown placeholders
+ */
+export function validateTemplate(template: string): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof template !== 'string' || !template.trim()) {
+    errors.push('Template must not be empty');
+    return { isValid: false, errors };
+  }
+
+  const unknown = getTemplatePlaceholders(template)
+    .filter(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{${name}}`).join(', ')}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validate the title and body of a message template
+ * @param template - Message template
+ * @returns Validation result for both parts
+ */
+export function validateMessageTemplate(template: MessageTemplate): ValidationResult {
+  const title = validateTemplate(template?.title);
+  const body = validateTemplate(template?.body);
+  const errors = [
+    ...title.errors.map(error => `title: ${error}`),
+    ...body.errors.map(error => `body: ${error}`),
+  ];
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Render a template, passing every substituted value through the backend's sanitizer
+ * @param template - Template text
+ * @param values - Placeholder values
+ * @param sanitize - Backend-specific sanitizer for substituted values
+ * @returns Rendered text
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+  sanitize: (value: string) => string = (value) => value
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      return placeholder;
+    }
+    return sanitize(values[name as TemplatePlaceholder]);
+  });
+}
@@ -0,0 +1,111 @@
+import { parseArgs } from 'util';
+import path from 'path';
+import { NotifierConfig } from '../config/notifier.js';
+import { PlatformRegistry } from '../platforms/index.js';
+import { loadConfiguredPlatforms } from '../platforms/loader.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { readHookPayload } from './payload.js';
+import { SessionStore } from './sessions.js';
+import { DigestQueue, flushDigest } from './digest.js';
+import { HookPayload } from '../types/index.js';
+
+/**
+ * Parse the arguments of the track subcommand
+ * @param args - Arguments following 'track'
+ * @returns Hook event name
+ * @throws InvalidInputError if the arguments are invalid
+ */
+export function parseTrackArgs(args: string[]): string {
+  let values: { event?: string | undefined };
+
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        event: { type: 'string' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new InvalidInputError(`Invalid track arguments: ${errorMessage}`, args);
+  }
+
+  if (!values.event) {
+    throw new InvalidInputError('track requires --event <hook event name>', args);
+  }
+
+  return values.event;
+}
+
+/**
+ * Update session state for a companion hook event
+ * @param event - Claude Code hook event name
+ * @param payload - Hook payload from Claude Code
+ * @param store - Session state store
+ * @param now - Current time in milliseconds
+ */
+export async function trackEvent(
+  event: string,
+  payload: HookPayload,
+  store: SessionStore = new SessionStore(),
+  now: number = Date.now()
+): Promise<void> {
+  if (!payload.session_id) {
+    return;
+  }
+
+  await store.load();
+
+  switch (event) {
+    case 'UserPromptSubmit':
+      store.start(payload.session_id, now);
+      break;
+    case 'SessionEnd':
+      store.end(payload.session_id);
+      break;
+    default:
+      return;
+  }
+
+  await store.save();
+}
+
+/**
+ * Deliver notifications held back during quiet hours, so they show up once the user is back
+ * even if no notification follows
+ * @param digest - Queue of held-back notifications
+ */
+async function deliverHeldBackDigest(digest: DigestQueue = new DigestQueue()): Promise<void> {
+  // Prompts are frequent, so only load the configuration and platforms when something is queued
+  if ((await digest.load()).length === 0) {
+    return;
+  }
+
+  const notifierConfig = new NotifierConfig();
+  const config = await notifierConfig.load();
+  await loadConfiguredPlatforms(config, path.dirname(notifierConfig.getPath()));
+  await flushDigest(PlatformRegistry.getSupportedPlatform(), config.quietHours, undefined, digest);
+}
+
+/**
+ * Run the track subcommand: record session state for a companion hook
+ * @param args - Arguments following 'track'
+ * @returns Process exit code
+ */
+export async function runTrack(args: string[]): Promise<number> {
+  try {
+    const event = parseTrackArgs(args);
+    const payload = await readHookPayload();
+
+    // Stay silent on success: UserPromptSubmit output is added to Claude's context
+    await trackEvent(event, payload);
+    await deliverHeldBackDigest();
+    return 0;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`claude-code-task-notifier: ${errorMessage}`);
+    return 1;
+  }
+}
@@ -0,0 +1,198 @@
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+
+/**
+ * Size of the blocks read from the end of the transcript
+ */
+export const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Maximum number of bytes scanned before giving up on finding a message
+ */
+const MAX_SCAN_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Maximum length of an excerpt shown in a notification
+ */
+export const EXCERPT_LENGTH = 160;
+
+/**
+ * Content block of a transcript message
+ */
+interface TranscriptContentBlock {
+  type?: string;
+  text?: string;
+}
+
+/**
+ * Line of a Claude Code transcript
+ */
+interface TranscriptEntry {
+  type?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  message?: {
+    role?: string;
+    content?: string | TranscriptContentBlock[];
+  };
+}
+
+/**
+ * Read the lines of a file from last to first without loading the whole file
+ * @param filePath - File to read
+ * @param maxBytes - Maximum number of bytes to read from the end
+ * @returns Lines in reverse order, excluding a trailing line that is still being written
+ */
+export function* readLinesReverse(filePath: string, maxBytes: number = MAX_SCAN_BYTES): Generator<string> {
+  const fd = openSync(filePath, 'r');
+
+  try {
+    const stats = fstatSync(fd);
+    if (!stats.isFile()) {
+      return;
+    }
+
+    const limit = Math.max(0, stats.size - maxBytes);
+    let position = stats.size;
+    let remainder = Buffer.alloc(0);
+    let atEnd = true;
+
+    while (position > limit) {
+      const length = Math.min(CHUNK_SIZE, position - limit);
+      position -= length;
+
+      const chunk = Buffer.alloc(length);
+      readSync(fd, chunk, 0, length, position);
+
+      // Split on raw newline bytes so multi-byte characters across chunk boundaries stay intact
+      let buffer = Buffer.concat([chunk, remainder]);
+      let newline = buffer.lastIndexOf(0x0a);
+
+      while (newline !== -1) {
+        const line = buffer.subarray(newline + 1);
+        // Without a trailing newline the last line may be half written, and parsing will tell
+        if (line.length > 0 || !atEnd) {
+          yield line.toString('utf-8');
+        }
+        atEnd = false;
+        buffer = buffer.subarray(0, newline);
+        newline = buffer.lastIndexOf(0x0a);
+      }
+
+      remainder = Buffer.from(buffer);
+    }
+
+    // The first line is only complete if the whole file was scanned
+    if (limit === 0 && remainder.length > 0) {
+      yield remainder.toString('utf-8');
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Extract the text of an assistant transcript entry
+ * @param entry - Parsed transcript line
+ * @returns Message text, or null if the entry is not an assistant text message
+ */
+function getAssistantText(entry: TranscriptEntry): string | null {
+  if (entry?.type !== 'assistant' || entry.isSidechain || !entry.message) {
+    return null;
+  }
+
+  const { content } = entry.message;
+  if (typeof content === 'string') {
+    return content.trim() || null;
+  }
+
+  if (!Array.isArray(content)) {
+    return null;
+  }
+
+  const text = content
+    .filter(block => block?.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text!)
+    .join('\n')
+    .trim();
+
+  return text || null;
+}
+
+/**
+ * Check whether a transcript entry is a prompt from the user, which starts a new turn
+ * @param entry - Parsed transcript line
+ * @returns True for user messages, false for tool results and entries Claude Code adds itself
+ */
+function isUserPrompt(entry: TranscriptEntry): boolean {
+  if (entry?.type !== 'user' || entry.isSidechain || entry.isMeta || !entry.message) {
+    return false;
+  }
+
+  const { content } = entry.message;
+  return !Array.isArray(content) || !content.some(block => block?.type === 'tool_result');
+}
+
+/**
+ * Find the text Claude wrote in the last turn of a transcript
+ * @param transcriptPath - Path of the JSONL transcript passed to hooks
+ * @param maxBytes - Maximum number of bytes to scan from the end
+ * @returns Message text, or null if the last turn has none (e.g. only tool calls, or it was interrupted)
+ *   or the transcript cannot be read
+ */
+export async function readLastAssistantMessage(
+  transcriptPath: string,
+  maxBytes: number = MAX_SCAN_BYTES
+): Promise<string | null> {
+  try {
+    for (const line of readLinesReverse(transcriptPath, maxBytes)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: TranscriptEntry;
+      try {
+        entry = JSON.parse(line) as TranscriptEntry;
+      } catch {
+        // Partially written or corrupt line
+        continue;
+      }
+
+      const text = getAssistantText(entry);
+      if (text) {
+        return text;
+      }
+
+      // An earlier turn's reply would describe something else
+      if (isUserPrompt(entry)) {
+        return null;
+      }
+    }
+  } catch {
+    // Missing or unreadable transcript
+  }
+
+  return null;
+}
+
+/**
+ * Shorten a message to a single line that fits in a notification
+ * @param text - Message text (may contain Markdown)
+ * @param length - Maximum length
+ * @returns Trimmed excerpt
+ */
+export function createExcerpt(text: string, length: number = EXCERPT_LENGTH): string {
+  const plain = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[`*_#>]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (plain.length <= length) {
+    return plain;
+  }
+
+  // Cut at a word boundary when there is one close to the limit
+  const cut = plain.slice(0, length - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${space > length * 0.6 ? cut.slice(0, space) : cut}…`;
+}
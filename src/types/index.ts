@@ -8,14 +8,55 @@
 export enum Platform {
   MACOS = 'macos',
   WINDOWS = 'windows',
+  LINUX = 'linux',
+  WSL = 'wsl',
+  TERMINAL = 'terminal',
 }
 
 /**
  * Hook action types
  */
 export enum HookAction {
-  COMPLETED = 'Completed',
   STOPPED = 'Stopped',
+  PERMISSION_NEEDED = 'Permission Needed',
+  WAITING_FOR_INPUT = 'Waiting For Input',
+  SUBAGENT_STOPPED = 'Subagent Finished',
+  SESSION_STARTED = 'Session Started',
+  SESSION_ENDED = 'Session Ended',
+  COMPACTING = 'Compacting Context',
+  TOOL_STARTING = 'Running Tool',
+  TOOL_FINISHED = 'Tool Finished',
+  TOOL_FAILED = 'Tool Failed',
+}
+
+/**
+ * Remote delivery channels that receive notifications alongside the desktop platform
+ */
+export enum ChannelType {
+  WEBHOOK = 'webhook',
+  SLACK = 'slack',
+  DISCORD = 'discord',
+  NTFY = 'ntfy',
+  GOTIFY = 'gotify',
+}
+
+/**
+ * Priority of a push notification, mapped to each service's own scale
+ */
+export enum PushPriority {
+  MIN = 'min',
+  LOW = 'low',
+  DEFAULT = 'default',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+/**
+ * How urgently a notification asks for attention
+ */
+export enum NotificationSeverity {
+  NORMAL = 'normal',
+  ERROR = 'error',
 }
 
 /**
@@ -35,6 +76,8 @@ export enum ErrorCode {
   COMMAND_VALIDATION_ERROR = 'COMMAND_VALIDATION_ERROR',
   INVALID_INPUT = 'INVALID_INPUT',
   USER_CANCELLED = 'USER_CANCELLED',
+  PLATFORM_LOAD_ERROR = 'PLATFORM_LOAD_ERROR',
+  CHANNEL_ERROR = 'CHANNEL_ERROR',
 }
 
 /**
@@ -59,6 +102,14 @@ export enum HookSelection {
   ON_NOTIFICATION_SOUND = 'onNotificationSound',
   ON_STOP = 'onStop',
   ON_STOP_SOUND = 'onStopSound',
+  ON_SUBAGENT_STOP = 'onSubagentStop',
+  ON_SUBAGENT_STOP_SOUND = 'onSubagentStopSound',
+  ON_SESSION_START = 'onSessionStart',
+  ON_SESSION_START_SOUND = 'onSessionStartSound',
+  ON_SESSION_END = 'onSessionEnd',
+  ON_SESSION_END_SOUND = 'onSessionEndSound',
+  ON_PRE_COMPACT = 'onPreCompact',
+  ON_PRE_COMPACT_SOUND = 'onPreCompactSound',
 }
 
 /**
@@ -74,12 +125,28 @@ export enum ConfirmationAction {
  */
 export enum MainMenuAction {
   VIEW_CONFIG = 'view',
+  QUIET_HOURS = 'quiet',
+  TOOL_RULES = 'rules',
+  FAILURE_ALERTS = 'failures',
+  HISTORY = 'history',
+  STATS = 'stats',
+  TEST_PUSH = 'test-push',
   INSTALL_MODIFY = 'install',
+  SELECT_PLATFORM = 'platform',
   REMOVE = 'remove',
   EXIT = 'exit',
 }
 
 
+/**
+ * How notifications are handled during quiet hours
+ */
+export enum QuietHoursMode {
+  DROP = 'drop',
+  SILENT = 'silent',
+  DIGEST = 'digest',
+}
+
 /**
  * Structure of a Claude hook configuration
  */
@@ -92,6 +159,7 @@ export interface ClaudeHook {
  * Structure of a hook group in Claude settings
  */
 export interface ClaudeHookGroup {
+  matcher?: string;
   hooks: ClaudeHook[];
 }
 
@@ -101,6 +169,13 @@ export interface ClaudeHookGroup {
 export interface ClaudeHooks {
   Notification?: ClaudeHookGroup[];
   Stop?: ClaudeHookGroup[];
+  SubagentStop?: ClaudeHookGroup[];
+  UserPromptSubmit?: ClaudeHookGroup[];
+  SessionStart?: ClaudeHookGroup[];
+  SessionEnd?: ClaudeHookGroup[];
+  PreCompact?: ClaudeHookGroup[];
+  PreToolUse?: ClaudeHookGroup[];
+  PostToolUse?: ClaudeHookGroup[];
   [key: string]: ClaudeHookGroup[] | undefined;
 }
 
@@ -113,13 +188,262 @@ export interface ClaudeSettingsData {
 }
 
 /**
- * Hook configuration preferences parsed from user selection
+ * Notification for specific tool calls, installed as a PreToolUse or PostToolUse hook
+ */
+export interface ToolRule {
+  id: string;
+  event: string;
+  matcher: string;
+  pattern?: string;
+}
+
+/**
+ * Alerts for failed tool calls, installed as a PostToolUse hook
+ */
+export interface FailureAlertConfig {
+  tools: string[];
+  sound?: string;
+}
+
+/**
+ * Webhook receiving a JSON POST for each notification
+ */
+export interface WebhookChannelConfig {
+  type: ChannelType.WEBHOOK;
+  url: string;
+  headers?: Record<string, string>;
+  secret?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Slack or Discord incoming webhook receiving a formatted chat message
+ */
+export interface ChatChannelConfig {
+  type: ChannelType.SLACK | ChannelType.DISCORD;
+  url: string;
+  timeoutMs?: number;
+}
+
+/**
+ * ntfy topic or Gotify server receiving push notifications for phones
+ */
+export interface PushChannelConfig {
+  type: ChannelType.NTFY | ChannelType.GOTIFY;
+  url: string;
+  token?: string;
+  priorities?: Record<string, PushPriority>;
+  tags?: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Configuration of a remote delivery channel
+ */
+export type ChannelConfig = WebhookChannelConfig | ChatChannelConfig | PushChannelConfig;
+
+/**
+ * Notification as delivered to remote channels
+ */
+export interface ChannelMessage {
+  event: string;
+  action: string;
+  project: string;
+  cwd: string;
+  session: string | null;
+  title: string;
+  message: string;
+  durationMs: number | null;
+  duration: string | null;
+  excerpt: string | null;
+  severity: NotificationSeverity;
+  timestamp: string;
+}
+
+/**
+ * Structure of the notifier's own configuration file
+ */
+export interface NotifierConfigData {
+  platforms?: string[];
+  preferredPlatform?: string;
+  templates?: Record<string, MessageTemplate>;
+  minDurationSeconds?: number;
+  quietHours?: QuietHoursConfig;
+  rateLimit?: Partial<RateLimitConfig>;
+  toolRules?: ToolRule[];
+  failureAlerts?: FailureAlertConfig;
+  channels?: ChannelConfig[];
+  [key: string]: unknown;
+}
+
+/**
+ * Windows for collapsing bursts of notifications, in seconds (0 turns a window off)
+ */
+export interface RateLimitConfig {
+  dedupeWindowSeconds: number;
+  mergeWindowSeconds: number;
+}
+
+/**
+ * Notification remembered for rate limiting
+ */
+export interface RateLimitEntry {
+  sessionId: string;
+  event: string;
+  action: string;
+  project: string;
+  sentAt: number;
+}
+
+/**
+ * Notification held back until a burst from parallel sessions is summarized
+ */
+export interface HeldNotification {
+  entry: HistoryEntry;
+  content: NotificationContent;
+  excerpt: string | null;
+}
+
+/**
+ * Burst of notifications for the same event: the first is sent at once, the rest as one summary when its window closes
+ */
+export interface PendingBurst {
+  key: string;
+  event: string;
+  action: string;
+  deadline: number;
+  sessions: string[];
+  projects: string[];
+  notification: HeldNotification | null;
+}
+
+/**
+ * Weekday time span during which quiet hours apply
+ */
+export interface QuietHoursRange {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+/**
+ * Quiet hours schedule
+ */
+export interface QuietHoursConfig {
+  enabled: boolean;
+  mode: QuietHoursMode;
+  ranges: QuietHoursRange[];
+}
+
+/**
+ * Notification held back during quiet hours
  */
-export interface HookConfiguration {
-  notificationEnabled: boolean;
-  notificationWithSound: boolean;
-  stopEnabled: boolean;
-  stopWithSound: boolean;
+export interface DigestEntry {
+  title: string;
+  message: string;
+  queuedAt: string;
+}
+
+/**
+ * Outcome of dispatching a notification
+ */
+export type DeliveryResult = QuietHoursMode | 'sent' | 'failed' | 'skipped' | 'merged';
+
+/**
+ * Dispatched notification recorded in the history log
+ */
+export interface HistoryEntry {
+  timestamp: string;
+  event: string;
+  action: string;
+  session: string | null;
+  cwd: string;
+  title: string;
+  message: string;
+  result: DeliveryResult;
+  platform: string;
+  durationMs?: number;
+}
+
+/**
+ * Criteria for listing history entries
+ */
+export interface HistoryFilter {
+  project?: string | undefined;
+  event?: string | undefined;
+}
+
+/**
+ * Tasks and permission requests of one day
+ */
+export interface DailyUsage {
+  date: string;
+  tasks: number;
+  permissionRequests: number;
+}
+
+/**
+ * Tasks, durations and permission requests of one project
+ */
+export interface ProjectUsage {
+  project: string;
+  tasks: number;
+  timedTasks: number;
+  medianDurationMs: number | null;
+  p95DurationMs: number | null;
+  permissionRequests: number;
+  permissionRequestsPerTask: number | null;
+}
+
+/**
+ * Usage summary aggregated from the notification history
+ */
+export interface UsageStats {
+  generatedAt: string;
+  since: string | null;
+  totalTasks: number;
+  totalPermissionRequests: number;
+  days: DailyUsage[];
+  projects: ProjectUsage[];
+}
+
+/**
+ * Title and body templates for a notification, with {placeholder} substitution
+ */
+export interface MessageTemplate {
+  title: string;
+  body: string;
+}
+
+/**
+ * Preferences for a single notification event
+ */
+export interface EventHookConfiguration {
+  enabled: boolean;
+  withSound: boolean;
+  sound?: string;
+  permissionSound?: string;
+}
+
+/**
+ * Hook configuration preferences parsed from user selection, keyed by hook event
+ */
+export type HookConfiguration = Record<string, EventHookConfiguration>;
+
+/**
+ * Sounds chosen for each notification event, keyed by hook event
+ */
+export type SoundSelection = Record<string, string>;
+
+/**
+ * Installed state of a single notification event
+ */
+export interface EventStatus {
+  enabled: boolean;
+  sound: string | null;
+  permissionSound?: string | null;
+  tracksDuration?: boolean;
+  minDurationSeconds?: number;
 }
 
 /**
@@ -128,18 +452,17 @@ export interface HookConfiguration {
 export interface ConfigurationStatus {
   hasHooks: boolean;
   installedHooks: string[];
-  notifications: {
-    enabled: boolean;
-    hasSound: boolean;
-  };
-  stop: {
-    enabled: boolean;
-    hasSound: boolean;
-  };
+  events: Record<string, EventStatus>;
   platform: {
     name: string;
     soundSupported: boolean;
+    capabilities: PlatformCapabilities | null;
+    preferred: string | null;
   };
+  quietHours: QuietHoursConfig | null;
+  toolRules: ToolRule[];
+  failureAlerts: FailureAlertConfig | null;
+  channels: ChannelConfig[];
   settingsPath: string;
 }
 
@@ -167,6 +490,72 @@ export interface PromptChoice {
   checked?: boolean;
 }
 
+/**
+ * Content of a single notification
+ */
+export interface NotificationContent {
+  title: string;
+  message: string;
+  withSound: boolean;
+  soundName?: string;
+  severity?: NotificationSeverity;
+}
+
+/**
+ * JSON payload Claude Code pipes to hook commands on stdin
+ */
+export interface HookPayload {
+  session_id?: string;
+  cwd?: string;
+  transcript_path?: string;
+  message?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input?: unknown;
+  tool_response?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Application owning the focused window
+ */
+export interface FocusedWindow {
+  name?: string;
+  pid?: number;
+}
+
+/**
+ * Looks up the focused window; replaceable so focus detection can be exercised without a GUI
+ */
+export type FocusProbe = () => Promise<FocusedWindow | null>;
+
+/**
+ * State kept for a Claude Code session between hook invocations
+ */
+export interface SessionState {
+  startedAt: number;
+}
+
+/**
+ * Structure of the session state file
+ */
+export interface SessionStateData {
+  sessions: Record<string, SessionState>;
+}
+
+/**
+ * Features a notification platform declares support for
+ */
+export interface PlatformCapabilities {
+  displayName: string;
+  sound: boolean;
+  customSounds: boolean;
+  icons: boolean;
+  clickActions: boolean;
+  urgency: boolean;
+  grouping: boolean;
+}
+
 /**
  * Platform detection result
  */
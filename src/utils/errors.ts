@@ -47,6 +47,34 @@ export class UnsupportedPlatformError extends ClaudeNotifierError {
   }
 }
 
+/**
+ * Error thrown when a third-party platform module cannot be loaded
+ */
+export class PlatformLoadError extends ClaudeNotifierError {
+  public readonly spec: string;
+  public readonly reason: string;
+
+  constructor(spec: string, reason: string, details: ErrorDetails = {}) {
+    super(`Failed to load platform '${spec}': ${reason}`, ErrorCode.PLATFORM_LOAD_ERROR, { spec, reason, ...details });
+    this.spec = spec;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown when a remote channel fails to deliver a notification
+ */
+export class ChannelError extends ClaudeNotifierError {
+  public readonly channel: string;
+  public readonly reason: string;
+
+  constructor(channel: string, reason: string, details: ErrorDetails = {}) {
+    super(`Failed to deliver to ${channel}: ${reason}`, ErrorCode.CHANNEL_ERROR, { channel, reason, ...details });
+    this.channel = channel;
+    this.reason = reason;
+  }
+}
+
 /**
  * Error thrown when settings file operations fail
  */
@@ -0,0 +1,169 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SlackChannel, buildSlackPayload, escapeSlackText } from '../dist/channels/slack.js';
+import { DiscordChannel, buildDiscordPayload } from '../dist/channels/discord.js';
+import { startStubServer } from './fixtures/server.js';
+
+const MESSAGE = {
+  event: 'Stop',
+  action: 'Stopped',
+  project: 'my-app',
+  cwd: '/home/me/my-app',
+  session: 'a1b2c3d4',
+  title: 'Claude Task Stopped - my-app',
+  message: 'Took 4m12s',
+  durationMs: 252000,
+  duration: '4m12s',
+  excerpt: 'All 42 tests pass.\nReady to merge.',
+  severity: 'normal',
+  timestamp: '2025-03-14T09:26:53.000Z',
+};
+
+const FAILURE = { ...MESSAGE, event: 'PostToolUse', action: 'Tool Failed', severity: 'error', excerpt: null, duration: null, session: null };
+
+describe('buildSlackPayload', () => {
+  it('builds a header, the text, the quoted excerpt and the details', () => {
+    const payload = buildSlackPayload(MESSAGE);
+
+    assert.equal(payload.text, '🔔 Claude Task Stopped - my-app: Took 4m12s');
+    assert.deepEqual(payload.blocks, [
+      { type: 'header', text: { type: 'plain_text', text: '🔔 Claude Task Stopped - my-app', emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: 'Took 4m12s' } },
+      { type: 'section', text: { type: 'mrkdwn', text: '> All 42 tests pass.\n> Ready to merge.' } },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: '*Project:* my-app' },
+          { type: 'mrkdwn', text: '*Event:* Stop' },
+          { type: 'mrkdwn', text: '*Duration:* 4m12s' },
+          { type: 'mrkdwn', text: '*Session:* a1b2c3d4' },
+        ],
+      },
+    ]);
+  });
+
+  it('escapes mrkdwn control characters in text from Claude and the project', () => {
+    const payload = buildSlackPayload({
+      ...MESSAGE,
+      project: '<app>',
+      message: 'Ping <!channel> & <@U123>',
+      excerpt: 'a > b',
+    });
+    const texts = JSON.stringify(payload);
+
+    assert.equal(escapeSlackText('<!here> & >'), '&lt;!here&gt; &amp; &gt;');
+    assert.equal(payload.blocks[1].text.text, 'Ping &lt;!channel&gt; &amp; &lt;@U123&gt;');
+    assert.equal(payload.blocks[2].text.text, '> a &gt; b');
+    assert.equal(payload.blocks[3].elements[0].text, '*Project:* &lt;app&gt;');
+    assert.ok(!texts.includes('<!channel>'));
+    assert.ok(!texts.includes('<@U123>'));
+  });
+
+  it('truncates the header and sections to the Block Kit limits', () => {
+    const payload = buildSlackPayload({ ...MESSAGE, title: 'T'.repeat(500), message: 'm'.repeat(5000), excerpt: 'e'.repeat(5000) });
+
+    assert.equal(payload.blocks[0].text.text.length, 150);
+    assert.ok(payload.blocks[0].text.text.endsWith('…'));
+    assert.equal(payload.blocks[1].text.text.length, 3000);
+    assert.equal(payload.blocks[2].text.text.length, 3000);
+  });
+
+  it('leaves out the excerpt and missing details, and marks failures', () => {
+    const payload = buildSlackPayload(FAILURE);
+
+    assert.equal(payload.blocks.length, 3);
+    assert.ok(payload.text.startsWith('🚨 '));
+    assert.deepEqual(payload.blocks[2].elements.map(element => element.text), ['*Project:* my-app', '*Event:* PostToolUse']);
+  });
+});
+
+describe('buildDiscordPayload', () => {
+  it('builds an embed with the quoted excerpt, details and timestamp', () => {
+    assert.deepEqual(buildDiscordPayload(MESSAGE), {
+      allowed_mentions: { parse: [] },
+      embeds: [
+        {
+          title: '🔔 Claude Task Stopped - my-app',
+          description: 'Took 4m12s\n\n> All 42 tests pass.\n> Ready to merge.',
+          color: 0x5865f2,
+          fields: [
+            { name: 'Project', value: 'my-app', inline: true },
+            { name: 'Event', value: 'Stop', inline: true },
+            { name: 'Duration', value: '4m12s', inline: true },
+            { name: 'Session', value: 'a1b2c3d4', inline: true },
+          ],
+          timestamp: '2025-03-14T09:26:53.000Z',
+        },
+      ],
+    });
+  });
+
+  it('never lets text from Claude ping anyone', () => {
+    const payload = buildDiscordPayload({ ...MESSAGE, message: '@everyone <@123> done' });
+
+    assert.deepEqual(payload.allowed_mentions, { parse: [] });
+    assert.equal(payload.embeds[0].description.split('\n')[0], '@everyone <@123> done');
+  });
+
+  it('truncates the title, description and fields to the embed limits', () => {
+    const [embed] = buildDiscordPayload({ ...MESSAGE, title: 'T'.repeat(500), message: 'm'.repeat(5000), project: 'p'.repeat(2000) }).embeds;
+
+    assert.equal(embed.title.length, 256);
+    assert.equal(embed.description.length, 4096);
+    assert.ok(embed.description.endsWith('…'));
+    assert.equal(embed.fields[0].value.length, 1024);
+  });
+
+  it('colors failures, leaves out missing details and fills empty fields', () => {
+    const [embed] = buildDiscordPayload({ ...FAILURE, project: '' }).embeds;
+
+    assert.equal(embed.color, 0xed4245);
+    assert.ok(embed.title.startsWith('🚨 '));
+    assert.equal(embed.description, 'Took 4m12s');
+    assert.deepEqual(embed.fields.map(field => [field.name, field.value]), [['Project', '-'], ['Event', 'PostToolUse']]);
+  });
+});
+
+describe('chat channels', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('posts the Slack payload to the webhook URL', async () => {
+    server = await startStubServer();
+    await new SlackChannel({ type: 'slack', url: `${server.url}/services/T000/B000/XXXX` }).send(MESSAGE);
+
+    const [request] = server.requests;
+    assert.equal(request.path, '/services/T000/B000/XXXX');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.deepEqual(JSON.parse(request.body), buildSlackPayload(MESSAGE));
+  });
+
+  it('posts the Discord payload to the webhook URL', async () => {
+    server = await startStubServer((request, response) => {
+      response.statusCode = 204;
+      response.end();
+    });
+    await new DiscordChannel({ type: 'discord', url: `${server.url}/api/webhooks/1234/abcd` }).send(MESSAGE);
+
+    assert.equal(server.requests[0].path, '/api/webhooks/1234/abcd');
+    assert.deepEqual(JSON.parse(server.requests[0].body), buildDiscordPayload(MESSAGE));
+  });
+
+  it('rejects without revealing the webhook token', async () => {
+    server = await startStubServer((request, response) => {
+      response.statusCode = 404;
+      response.statusMessage = 'Not Found';
+      response.end();
+    });
+
+    await assert.rejects(new SlackChannel({ type: 'slack', url: `${server.url}/services/T000/B000/XXXX` }).send(MESSAGE), (error) => {
+      assert.equal(error.reason, 'server responded with 404 Not Found');
+      assert.ok(!error.message.includes('XXXX'));
+      return true;
+    });
+  });
+});
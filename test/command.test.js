@@ -0,0 +1,53 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const COMMAND_MODULE = pathToFileURL(path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'runtime', 'command.js')).href;
+
+describe('hook commands installed from the npx cache', () => {
+  let prefix;
+
+  beforeEach(() => {
+    prefix = realpathSync(mkdtempSync(path.join(tmpdir(), 'notifier-prefix-')));
+  });
+
+  afterEach(() => {
+    rmSync(prefix, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a track hook command as the CLI would when started by npx, with global packages under the prefix
+   */
+  function createCommandFromNpx() {
+    const script = [
+      `process.argv[1] = ${JSON.stringify(path.join(tmpdir(), '_npx', '0123abcd', 'node_modules', '.bin', 'claude-code-task-notifier'))};`,
+      `const { createTrackHookCommand, isHookRunThroughNpx } = await import(${JSON.stringify(COMMAND_MODULE)});`,
+      `console.log(JSON.stringify([createTrackHookCommand('UserPromptSubmit'), isHookRunThroughNpx()]));`,
+    ].join('\n');
+
+    return JSON.parse(execFileSync(process.execPath, ['--input-type=module', '-e', script], {
+      env: { ...process.env, npm_config_prefix: prefix },
+      encoding: 'utf-8',
+      timeout: 20000,
+    }));
+  }
+
+  it('falls back to npx without asking the registry when the package is not installed', () => {
+    assert.deepEqual(createCommandFromNpx(), ['npx -y --prefer-offline claude-code-task-notifier track --event UserPromptSubmit', true]);
+  });
+
+  it('runs a global installation directly', () => {
+    const root = execFileSync('npm', ['root', '-g'], { env: { ...process.env, npm_config_prefix: prefix }, encoding: 'utf-8', timeout: 20000 }).trim();
+    const packageDir = path.join(root, 'claude-code-task-notifier');
+    mkdirSync(path.join(packageDir, 'dist'), { recursive: true });
+    writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({ bin: { 'claude-code-task-notifier': 'dist/index.js' } }));
+    writeFileSync(path.join(packageDir, 'dist', 'index.js'), '');
+
+    const script = path.join(packageDir, 'dist', 'index.js').split(path.sep).join('/');
+    assert.deepEqual(createCommandFromNpx(), [`node "${script}" track --event UserPromptSubmit`, false]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { detectToolFailure, summarizeToolFailure } from '../dist/runtime/failure.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'hooks');
+
+/**
+ * Load a PostToolUse payload in the shape Claude Code sends it
+ */
+const loadPayload = (name) => JSON.parse(readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+
+describe('detectToolFailure', () => {
+  it('stays quiet for successful calls', () => {
+    for (const name of ['bash-success', 'bash-stderr-success', 'bash-stderr-only', 'bash-no-matches', 'edit-success']) {
+      assert.equal(detectToolFailure(loadPayload(name)), null, name);
+    }
+  });
+
+  it('does not read failures into stderr text without an exit code or error flag', () => {
+    const payload = loadPayload('bash-success');
+
+    for (const stderr of ['0 errors', 'warning: config not found, using default', 'Error: deprecated option', '3 failed']) {
+      assert.equal(detectToolFailure({ ...payload, tool_response: { ...payload.tool_response, stdout: '', stderr } }), null, stderr);
+    }
+  });
+
+  it('reports stderr as the reason once a structured signal marks the call as failed', () => {
+    const payload = loadPayload('bash-success');
+    const failure = detectToolFailure({ ...payload, tool_response: { ...payload.tool_response, stderr: '3 failed', interrupted: true } });
+
+    assert.deepEqual(failure, { exitCode: null, error: '3 failed' });
+    assert.equal(summarizeToolFailure(payload, failure), 'Bash: npm run build failed: 3 failed');
+  });
+
+  it('detects an interrupted Bash call', () => {
+    assert.deepEqual(detectToolFailure(loadPayload('bash-interrupted')), { exitCode: null, error: null });
+  });
+
+  it('reads the exit code from an error reported as text', () => {
+    const payload = loadPayload('bash-error-string');
+    const failure = detectToolFailure(payload);
+
+    assert.equal(failure.exitCode, 2);
+    assert.equal(
+      summarizeToolFailure(payload, failure),
+      `Bash: npx tsc --noEmit failed (exit code 2): src/index.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.`
+    );
+  });
+
+  it('takes the error of an MCP tool from its content blocks', () => {
+    assert.deepEqual(detectToolFailure(loadPayload('mcp-error')), {
+      exitCode: null,
+      error: 'Validation Failed: A pull request already exists for acme:fix-port.',
+    });
+  });
+
+  it('still uses exit codes and error fields when a tool reports them', () => {
+    const payload = loadPayload('bash-success');
+
+    assert.equal(detectToolFailure({ ...payload, tool_response: { ...payload.tool_response, exit_code: 0 } }), null);
+    assert.deepEqual(
+      detectToolFailure({ ...payload, tool_response: { stdout: '', stderr: 'warning only', exitCode: 1 } }),
+      { exitCode: 1, error: 'warning only' }
+    );
+    assert.deepEqual(detectToolFailure({ ...payload, tool_response: { error: 'File not found' } }), { exitCode: null, error: 'File not found' });
+  });
+});
@@ -0,0 +1,19 @@
+// Third-party platform that claims support on every system
+export default {
+  id: 'everywhere',
+  capabilities: {
+    displayName: 'Everywhere',
+    sound: false,
+    customSounds: false,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: false,
+  },
+  isSupported() {
+    return true;
+  },
+  createCommand(content) {
+    return `echo ${content.title}`;
+  },
+};
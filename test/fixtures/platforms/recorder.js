@@ -0,0 +1,24 @@
+import { appendFileSync } from 'fs';
+
+// Platform that appends every notification to the file named by NOTIFIER_TEST_OUTPUT
+export default {
+  id: 'recorder',
+  capabilities: {
+    displayName: 'Recorder',
+    sound: false,
+    customSounds: false,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: false,
+  },
+  isSupported() {
+    return true;
+  },
+  createCommand() {
+    return 'true';
+  },
+  async send(content) {
+    appendFileSync(process.env.NOTIFIER_TEST_OUTPUT, `${JSON.stringify(content)}\n`);
+  },
+};
@@ -0,0 +1,34 @@
+import http from 'http';
+
+/**
+ * Start a local HTTP server recording the requests it receives
+ * @param respond - Answers a request; by default with 200 OK. A handler that never ends the response lets requests time out
+ * @returns Base URL of the server, the recorded requests and a function closing the server
+ */
+export async function startStubServer(respond = (request, response) => response.end('ok')) {
+  const requests = [];
+
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.setEncoding('utf-8');
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const recorded = { method: request.method, path: request.url, headers: request.headers, body };
+      requests.push(recorded);
+      respond(recorded, response);
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    async close() {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { NotificationPlatform } from '../dist/platforms/base.js';
+import { isLaunchingTerminal, isProcessTreeDetached } from '../dist/platforms/focus.js';
+
+/**
+ * Variables that mark tmux, screen, SSH and WSL sessions
+ */
+const SESSION_VARIABLES = ['TMUX', 'STY', 'SSH_CONNECTION', 'SSH_TTY', 'WSL_DISTRO_NAME', 'WSL_INTEROP', 'TERM_PROGRAM'];
+
+/**
+ * Platform whose focus probe is supplied by the test
+ */
+class ProbedPlatform extends NotificationPlatform {
+  id = 'probed';
+  capabilities = {
+    displayName: 'Probed',
+    sound: false,
+    customSounds: false,
+    icons: false,
+    clickActions: false,
+    urgency: false,
+    grouping: false,
+  };
+
+  constructor(probe) {
+    super();
+    this.focusProbe = probe;
+  }
+
+  isSupported() {
+    return true;
+  }
+
+  createCommand() {
+    return 'true';
+  }
+}
+
+describe('isLaunchingTerminal', () => {
+  const ancestors = [4100, 4000, 1200];
+
+  it('matches a focused window that is one of our parent processes', () => {
+    assert.equal(isLaunchingTerminal({ name: 'anything', pid: 4000 }, ancestors, {}), true);
+  });
+
+  it('does not match other applications by name when the process tree is intact', () => {
+    for (const name of ['code', 'Cursor', 'cmd.exe', 'powershell', 'xterm', 'Terminal']) {
+      assert.equal(isLaunchingTerminal({ name, pid: 9999 }, ancestors, {}), false, name);
+    }
+  });
+
+  it('falls back to terminal names inside tmux, SSH and WSL', () => {
+    assert.equal(isLaunchingTerminal({ name: 'iTerm2', pid: 9999 }, ancestors, { TMUX: '/tmp/tmux-1000/default,1,0' }), true);
+    assert.equal(isLaunchingTerminal({ name: 'WindowsTerminal.exe' }, ancestors, { WSL_DISTRO_NAME: 'Ubuntu' }), true);
+    assert.equal(isLaunchingTerminal({ name: 'firefox', pid: 9999 }, ancestors, { SSH_TTY: '/dev/pts/1' }), false);
+  });
+
+  it('no longer treats editors as terminals unless TERM_PROGRAM names them', () => {
+    assert.equal(isLaunchingTerminal({ name: 'Code.exe' }, ancestors, { TMUX: '1' }), false);
+    assert.equal(isLaunchingTerminal({ name: 'Code.exe' }, ancestors, { TMUX: '1', TERM_PROGRAM: 'vscode' }), true);
+    assert.equal(isLaunchingTerminal({ name: 'xterm' }, ancestors, { TMUX: '1', TERM_PROGRAM: 'vscode' }), false);
+  });
+
+  it('treats an unknown process tree as detached', () => {
+    assert.equal(isProcessTreeDetached([], {}), true);
+    assert.equal(isProcessTreeDetached(ancestors, {}), false);
+  });
+});
+
+describe('NotificationPlatform.isTerminalFocused', () => {
+  const saved = {};
+
+  beforeEach(() => {
+    for (const name of SESSION_VARIABLES) {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of SESSION_VARIABLES) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it('is focused when the probe reports our parent process', async () => {
+    const platform = new ProbedPlatform(async () => ({ name: 'node', pid: process.ppid }));
+    assert.equal(await platform.isTerminalFocused(), true);
+  });
+
+  it('is not focused when another terminal or editor is in front', async () => {
+    const platform = new ProbedPlatform(async () => ({ name: 'code', pid: 2147483646 }));
+    assert.equal(await platform.isTerminalFocused(), false);
+  });
+
+  it('matches by name inside tmux', async () => {
+    process.env.TMUX = '/tmp/tmux-1000/default,1,0';
+    const platform = new ProbedPlatform(async () => ({ name: 'kitty', pid: 2147483646 }));
+    assert.equal(await platform.isTerminalFocused(), true);
+  });
+
+  it('is not focused when the probe finds nothing or fails', async () => {
+    assert.equal(await new ProbedPlatform(async () => null).isTerminalFocused(), false);
+    assert.equal(await new ProbedPlatform(async () => { throw new Error('no display'); }).isTerminalFocused(), false);
+    assert.equal(await new ProbedPlatform(null).isTerminalFocused(), false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PlatformRegistry } from '../dist/platforms/index.js';
+import { loadConfiguredPlatforms } from '../dist/platforms/loader.js';
+import { TerminalPlatform } from '../dist/platforms/terminal.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'platforms');
+
+describe('loadConfiguredPlatforms', () => {
+  it('registers third-party platforms ahead of the terminal fallback', async () => {
+    const errors = await loadConfiguredPlatforms({ platforms: ['./everywhere.js'] }, fixtures);
+    assert.deepEqual(errors, []);
+
+    const ids = [...PlatformRegistry.getAllPlatforms().keys()];
+    assert.equal(ids.at(-1), 'terminal');
+    assert.ok(ids.indexOf('everywhere') < ids.indexOf('terminal'));
+
+    // Without a preference, the loaded platform wins over the terminal fallback
+    assert.notEqual(PlatformRegistry.getSupportedPlatform().id, 'terminal');
+  });
+});
+
+describe('TerminalPlatform', () => {
+  const platform = new TerminalPlatform();
+  const content = { title: 'Claude Code - app', message: 'Task done', withSound: true };
+
+  /**
+   * Run a command in a new session, which has no controlling terminal
+   */
+  const runWithoutTerminal = (command) => spawnSync('sh', ['-c', command], { detached: true, stdio: 'ignore', timeout: 5000 });
+
+  it('needs the terminal of the hook process', () => {
+    assert.equal(platform.needsTerminal(), true);
+  });
+
+  it('fails instead of reporting success when there is no terminal to write to', { skip: process.platform === 'win32' }, () => {
+    assert.notEqual(runWithoutTerminal(platform.createCommand(content)).status, 0);
+    assert.notEqual(runWithoutTerminal(platform.createCommand({ ...content, withSound: false })).status, 0);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GotifyChannel, NtfyChannel, PERMISSION_PRIORITY_KEY } from '../dist/channels/push.js';
+import { validateChannels } from '../dist/channels/index.js';
+import { startStubServer } from './fixtures/server.js';
+
+const MESSAGE = {
+  event: 'Stop',
+  action: 'Stopped',
+  project: 'my-app',
+  cwd: '/home/me/my-app',
+  session: 'a1b2c3d4',
+  title: 'Claude Task Stopped - my-app',
+  message: 'Took 4m12s',
+  durationMs: 252000,
+  duration: '4m12s',
+  excerpt: 'All 42 tests pass.',
+  severity: 'normal',
+  timestamp: '2025-03-14T09:26:53.000Z',
+};
+
+const PERMISSION = { ...MESSAGE, event: 'Notification', action: 'Permission Needed', message: 'Claude needs your permission to use Bash' };
+const FAILURE = { ...MESSAGE, event: 'PostToolUse', action: 'Tool Failed', severity: 'error', excerpt: null };
+
+describe('NtfyChannel', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('publishes JSON with the topic to the server root', async () => {
+    server = await startStubServer();
+    await new NtfyChannel({ type: 'ntfy', url: `${server.url}/claude-alerts`, tags: ['robot'] }).send(MESSAGE);
+
+    const [request] = server.requests;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.path, '/');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers.authorization, undefined);
+    assert.deepEqual(JSON.parse(request.body), {
+      topic: 'claude-alerts',
+      title: 'Claude Task Stopped - my-app',
+      message: 'Took 4m12s\n\nAll 42 tests pass.',
+      priority: 3,
+      tags: ['bell', 'robot'],
+    });
+  });
+
+  it('keeps the path of a server behind a prefix', async () => {
+    server = await startStubServer();
+    await new NtfyChannel({ type: 'ntfy', url: `${server.url}/ntfy/claude-alerts` }).send(MESSAGE);
+
+    assert.equal(server.requests[0].path, '/ntfy/');
+    assert.equal(JSON.parse(server.requests[0].body).topic, 'claude-alerts');
+  });
+
+  it('maps priorities: high for permission prompts and failures, configured ones first', async () => {
+    server = await startStubServer();
+    const channel = new NtfyChannel({ type: 'ntfy', url: `${server.url}/claude-alerts`, priorities: { Stop: 'min' } });
+
+    await channel.send(PERMISSION);
+    await channel.send(FAILURE);
+    await channel.send(MESSAGE);
+
+    const bodies = server.requests.map(request => JSON.parse(request.body));
+    assert.deepEqual(bodies.map(body => body.priority), [4, 4, 1]);
+    assert.deepEqual(bodies[1].tags, ['rotating_light']);
+  });
+
+  it('sends the access token as a bearer token', async () => {
+    server = await startStubServer();
+    await new NtfyChannel({ type: 'ntfy', url: `${server.url}/claude-alerts`, token: 'tk_secret' }).send(MESSAGE);
+
+    assert.equal(server.requests[0].headers.authorization, 'Bearer tk_secret');
+  });
+
+  it('gives up when the server does not answer within the timeout', async () => {
+    server = await startStubServer(() => {});
+
+    await assert.rejects(
+      new NtfyChannel({ type: 'ntfy', url: `${server.url}/claude-alerts`, timeoutMs: 200 }).send(MESSAGE),
+      { name: 'ChannelError', reason: 'no response within 200ms' }
+    );
+  });
+});
+
+describe('GotifyChannel', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('posts to /message with the application token header', async () => {
+    server = await startStubServer();
+    await new GotifyChannel({ type: 'gotify', url: `${server.url}/gotify/`, token: 'app-token' }).send(MESSAGE);
+
+    const [request] = server.requests;
+    assert.equal(request.path, '/gotify/message');
+    assert.equal(request.headers['x-gotify-key'], 'app-token');
+    assert.equal(request.headers.authorization, undefined);
+    assert.deepEqual(JSON.parse(request.body), {
+      title: 'Claude Task Stopped - my-app',
+      message: 'Took 4m12s\n\nAll 42 tests pass.',
+      priority: 5,
+    });
+  });
+
+  it('maps priorities to the Gotify scale', async () => {
+    server = await startStubServer();
+    const channel = new GotifyChannel({
+      type: 'gotify',
+      url: server.url,
+      token: 'app-token',
+      priorities: { [PERMISSION_PRIORITY_KEY]: 'urgent', Stop: 'low' },
+    });
+
+    await channel.send(PERMISSION);
+    await channel.send(FAILURE);
+    await channel.send(MESSAGE);
+
+    assert.deepEqual(server.requests.map(request => JSON.parse(request.body).priority), [10, 8, 2]);
+  });
+
+  it('rejects with the status when the token is refused', async () => {
+    server = await startStubServer((request, response) => {
+      response.statusCode = 401;
+      response.statusMessage = 'Unauthorized';
+      response.end();
+    });
+
+    await assert.rejects(
+      new GotifyChannel({ type: 'gotify', url: server.url, token: 'wrong' }).send(MESSAGE),
+      { name: 'ChannelError', reason: 'server responded with 401 Unauthorized' }
+    );
+  });
+});
+
+describe('validateChannels for push channels', () => {
+  it('rejects tags on Gotify channels, which cannot show them', () => {
+    const result = validateChannels([{ type: 'gotify', url: 'https://gotify.example.com', token: 'app-token', tags: ['robot'] }]);
+
+    assert.equal(result.isValid, false);
+    assert.deepEqual(result.errors, ['channel 1 tags are only supported by ntfy channels']);
+  });
+
+  it('accepts tags on ntfy channels', () => {
+    assert.equal(validateChannels([{ type: 'ntfy', url: 'https://ntfy.sh/claude-alerts', tags: ['robot'] }]).isValid, true);
+  });
+});
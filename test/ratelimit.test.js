@@ -0,0 +1,184 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, utimesSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RateLimiter } from '../dist/runtime/ratelimit.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const LIMITS = { dedupeWindowSeconds: 30, mergeWindowSeconds: 10 };
+
+/**
+ * Build a rate limiter entry for a finished session
+ */
+const stop = (sessionId, project, sentAt) => ({ sessionId, event: 'Stop', action: 'Stopped', project, sentAt });
+
+/**
+ * Build a held notification for a finished session
+ */
+const held = (project) => ({
+  entry: { event: 'Stop', action: 'Stopped', project },
+  content: { title: `Claude Code - ${project}`, message: 'Task done', withSound: true },
+  excerpt: null,
+});
+
+describe('RateLimiter.check', () => {
+  let dir;
+  let limiter;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'notifier-ratelimit-'));
+    limiter = new RateLimiter(path.join(dir, 'ratelimit.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends the first notification and lets sessions finishing within the window join a summary', async () => {
+    assert.deepEqual(await limiter.check(stop('s1', 'api', 1000), LIMITS, held('api')), { type: 'send' });
+
+    const second = await limiter.check(stop('s2', 'web', 4000), LIMITS, held('web'));
+    assert.deepEqual(second, { type: 'join', key: 'Stop-11000', deadline: 11000, deliver: true });
+
+    // Only the first session to join delivers the summary
+    assert.deepEqual(await limiter.check(stop('s3', 'infra', 10999), LIMITS, held('infra')), { ...second, deliver: false });
+
+    const burst = await limiter.getBurst(second.key);
+    assert.deepEqual(burst.projects, ['api', 'web', 'infra']);
+    assert.equal(burst.notification.content.title, 'Claude Code - web');
+  });
+
+  it('starts a new burst once the window has closed', async () => {
+    await limiter.check(stop('s1', 'api', 1000), LIMITS, held('api'));
+
+    assert.deepEqual(await limiter.check(stop('s2', 'web', 11000), LIMITS, held('web')), { type: 'send' });
+    assert.equal((await limiter.check(stop('s3', 'infra', 12000), LIMITS, held('infra'))).key, 'Stop-21000');
+  });
+
+  it('skips a repeat from the same session within the dedupe window', async () => {
+    await limiter.check(stop('s1', 'api', 1000), LIMITS, held('api'));
+
+    assert.deepEqual(await limiter.check(stop('s1', 'api', 5000), LIMITS, held('api')), { type: 'skip' });
+    assert.deepEqual(await limiter.check(stop('s1', 'api', 31000), LIMITS, held('api')), { type: 'send' });
+  });
+
+  it('sends at once when merging is off', async () => {
+    const limits = { ...LIMITS, mergeWindowSeconds: 0 };
+
+    assert.deepEqual(await limiter.check(stop('s1', 'api', 1000), limits, held('api')), { type: 'send' });
+    assert.deepEqual(await limiter.check(stop('s2', 'web', 2000), limits, held('web')), { type: 'send' });
+  });
+
+  it('hands a burst out only once', async () => {
+    await limiter.check(stop('s1', 'api', 1000), LIMITS, held('api'));
+    const { key } = await limiter.check(stop('s2', 'web', 2000), LIMITS, held('web'));
+
+    assert.equal((await limiter.takeBurst(key)).key, key);
+    assert.equal(await limiter.takeBurst(key), null);
+    assert.equal(await new RateLimiter(limiter.getPath()).getBurst(key), null);
+  });
+
+  it('serializes checks running in parallel against the same state file', async () => {
+    const other = new RateLimiter(limiter.getPath());
+
+    const decisions = await Promise.all([
+      limiter.check(stop('s1', 'api', 1000), LIMITS, held('api')),
+      other.check(stop('s2', 'web', 1000), LIMITS, held('web')),
+      new RateLimiter(limiter.getPath()).check(stop('s1', 'api', 1000), LIMITS, held('api')),
+    ]);
+
+    // One burst is opened and one session joins it; the repeat sees the first check's entry
+    assert.deepEqual(decisions.map(decision => decision.type).sort(), ['join', 'send', 'skip']);
+    assert.equal(decisions.filter(decision => decision.deliver).length, 1);
+    assert.deepEqual((await limiter.load()).map(entry => entry.sessionId).sort(), ['s1', 's2']);
+    assert.equal(existsSync(`${limiter.getPath()}.lock`), false);
+  });
+
+  it('breaks a lock left behind by a crashed hook', async () => {
+    const lockPath = `${limiter.getPath()}.lock`;
+    writeFileSync(lockPath, '');
+    const stale = new Date(Date.now() - 60000);
+    utimesSync(lockPath, stale, stale);
+
+    assert.deepEqual(await limiter.check(stop('s1', 'api', 1000), LIMITS, held('api')), { type: 'send' });
+  });
+});
+
+describe('notify rate limiting', () => {
+  let home;
+  let output;
+
+  beforeEach(() => {
+    home = mkdtempSync(path.join(tmpdir(), 'notifier-burst-'));
+    output = path.join(home, 'sent.jsonl');
+
+    const configDir = path.join(home, '.claude', 'task-notifier');
+    mkdirSync(configDir, { recursive: true });
+    writeFileSync(path.join(configDir, 'config.json'), JSON.stringify({
+      platforms: [path.join(ROOT, 'test', 'fixtures', 'platforms', 'recorder.js')],
+      preferredPlatform: 'recorder',
+      // Wide enough for three hooks to start one after another on a slow machine
+      rateLimit: { mergeWindowSeconds: 5 },
+    }));
+  });
+
+  afterEach(() => {
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  /**
+   * Run the notify hook as Claude Code does, with the payload on stdin
+   */
+  function runHook(sessionId, project) {
+    execFileSync(process.execPath, [path.join(ROOT, 'dist', 'index.js'), 'notify', '--event', 'Stop'], {
+      input: JSON.stringify({ session_id: sessionId, cwd: path.join(home, project), hook_event_name: 'Stop' }),
+      env: { ...process.env, HOME: home, USERPROFILE: home, NOTIFIER_TEST_OUTPUT: output },
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * Read the notifications delivered so far
+   */
+  function readSent() {
+    return existsSync(output) ? readFileSync(output, 'utf-8').trim().split('\n').map(line => JSON.parse(line)) : [];
+  }
+
+  /**
+   * Wait until the expected number of notifications, including background deliveries, has been written
+   */
+  async function waitForDelivery(count) {
+    for (let attempt = 0; attempt < 100 && readSent().length < count; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    // Leave time for an extra, unwanted delivery to show up
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    return readSent();
+  }
+
+  it('sends the first notification at once and one summary for the sessions finishing after it', async () => {
+    runHook('s1', 'p1');
+    runHook('s2', 'p2');
+    runHook('s3', 'p3');
+
+    const sent = await waitForDelivery(2);
+    assert.equal(sent.length, 2);
+    assert.equal(sent[0].title, 'Claude Code - p1');
+    assert.equal(sent[1].message, '3 Claude tasks finished: p1, p2, p3');
+  });
+
+  it('records a repeat from the same session as skipped', async () => {
+    runHook('s1', 'p1');
+    runHook('s1', 'p1');
+
+    assert.equal((await waitForDelivery(1)).length, 1);
+
+    const history = readFileSync(path.join(home, '.claude', 'task-notifier', 'history.jsonl'), 'utf-8')
+      .trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(history.map(entry => entry.result).sort(), ['sent', 'skipped']);
+    assert.equal(history.find(entry => entry.result === 'skipped').message, 'Repeated within 30s');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getQuietHoursMode, isInRange } from '../dist/runtime/schedule.js';
+import { DigestQueue, flushDigest } from '../dist/runtime/digest.js';
+import { dispatchNotification } from '../dist/runtime/notify.js';
+import { QuietHoursMode } from '../dist/types/index.js';
+
+// 2025-03-14 is a Friday (day 5); dates are local time, like the schedule
+const friday = (hours, minutes = 0) => new Date(2025, 2, 14, hours, minutes);
+const saturday = (hours, minutes = 0) => new Date(2025, 2, 15, hours, minutes);
+const clockAt = (date) => () => date;
+
+const WEEKNIGHTS = { days: [1, 2, 3, 4, 5], start: '22:00', end: '07:00' };
+
+/**
+ * Platform recording what it was asked to send
+ */
+function createRecordingPlatform() {
+  const sent = [];
+  return {
+    sent,
+    async send(content) {
+      sent.push(content);
+    },
+  };
+}
+
+describe('isInRange', () => {
+  it('covers an overnight range from the evening it starts on', () => {
+    assert.equal(isInRange(WEEKNIGHTS, friday(21, 59)), false);
+    assert.equal(isInRange(WEEKNIGHTS, friday(22, 0)), true);
+    assert.equal(isInRange(WEEKNIGHTS, friday(23, 59)), true);
+  });
+
+  it('continues an overnight range past midnight into the next day', () => {
+    // Saturday is not in the range, but Friday night's range runs until 07:00
+    assert.equal(isInRange(WEEKNIGHTS, saturday(0, 0)), true);
+    assert.equal(isInRange(WEEKNIGHTS, saturday(6, 59)), true);
+    assert.equal(isInRange(WEEKNIGHTS, saturday(7, 0)), false);
+    assert.equal(isInRange(WEEKNIGHTS, saturday(22, 30)), false);
+  });
+
+  it('does not start an overnight range on days it does not list', () => {
+    // Sunday 23:00 is not covered, Monday 06:00 only because Sunday is not listed either
+    const sunday = new Date(2025, 2, 16, 23, 0);
+    const monday = new Date(2025, 2, 17, 6, 0);
+    assert.equal(isInRange(WEEKNIGHTS, sunday), false);
+    assert.equal(isInRange(WEEKNIGHTS, monday), false);
+  });
+
+  it('treats equal start and end as the whole day', () => {
+    const allDay = { days: [5], start: '09:00', end: '09:00' };
+    assert.equal(isInRange(allDay, friday(0, 0)), true);
+    assert.equal(isInRange(allDay, friday(8, 59)), true);
+    assert.equal(isInRange(allDay, friday(23, 59)), true);
+    assert.equal(isInRange(allDay, saturday(9, 0)), false);
+  });
+
+  it('excludes the end of a daytime range', () => {
+    const lunch = { days: [5], start: '12:00', end: '13:00' };
+    assert.equal(isInRange(lunch, friday(12, 0)), true);
+    assert.equal(isInRange(lunch, friday(13, 0)), false);
+  });
+});
+
+describe('getQuietHoursMode', () => {
+  it('returns the configured mode inside a range and null outside', () => {
+    for (const mode of Object.values(QuietHoursMode)) {
+      const config = { enabled: true, mode, ranges: [WEEKNIGHTS] };
+      assert.equal(getQuietHoursMode(config, clockAt(friday(23))), mode);
+      assert.equal(getQuietHoursMode(config, clockAt(friday(12))), null);
+    }
+  });
+
+  it('returns null when quiet hours are off or not configured', () => {
+    assert.equal(getQuietHoursMode({ enabled: false, mode: QuietHoursMode.DROP, ranges: [WEEKNIGHTS] }, clockAt(friday(23))), null);
+    assert.equal(getQuietHoursMode(undefined, clockAt(friday(23))), null);
+  });
+});
+
+describe('dispatchNotification and flushDigest', () => {
+  let dir;
+  let digest;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'notifier-schedule-'));
+    digest = new DigestQueue(path.join(dir, 'digest.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const content = { title: 'Claude Code - app', message: 'Task done', withSound: true, soundName: 'Glass' };
+
+  it('applies the mode in effect', async () => {
+    const platform = createRecordingPlatform();
+    const quietHours = (mode) => ({ enabled: true, mode, ranges: [WEEKNIGHTS] });
+
+    assert.equal(await dispatchNotification(platform, content, quietHours(QuietHoursMode.DROP), clockAt(friday(23)), digest), 'drop');
+    assert.equal(await dispatchNotification(platform, content, quietHours(QuietHoursMode.SILENT), clockAt(friday(23)), digest), 'silent');
+    assert.equal(await dispatchNotification(platform, content, quietHours(QuietHoursMode.DIGEST), clockAt(friday(23)), digest), 'digest');
+
+    assert.equal(platform.sent.length, 1);
+    assert.equal(platform.sent[0].withSound, false);
+    assert.equal('soundName' in platform.sent[0], false);
+    assert.equal((await digest.load()).length, 1);
+  });
+
+  it('delivers the digest on the first hook after quiet hours without a new notification', async () => {
+    const platform = createRecordingPlatform();
+    const quietHours = { enabled: true, mode: QuietHoursMode.DIGEST, ranges: [WEEKNIGHTS] };
+
+    await dispatchNotification(platform, content, quietHours, clockAt(friday(23)), digest);
+    await dispatchNotification(platform, { ...content, message: 'Second' }, quietHours, clockAt(saturday(1)), digest);
+
+    // Still quiet: nothing is flushed
+    assert.equal(await flushDigest(platform, quietHours, clockAt(saturday(6)), digest), 0);
+    assert.equal(platform.sent.length, 0);
+
+    assert.equal(await flushDigest(platform, quietHours, clockAt(saturday(8)), digest), 2);
+    assert.equal(platform.sent.length, 1);
+    assert.match(platform.sent[0].title, /2 notifications during quiet hours/);
+    assert.equal(platform.sent[0].message, 'Task done | Second');
+    assert.deepEqual(await digest.load(), []);
+  });
+});
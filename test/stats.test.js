@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeUsageStats } from '../dist/runtime/stats.js';
+
+const NOW = new Date(2025, 2, 14, 18, 0);
+
+/**
+ * Build a history entry for a finished task
+ */
+const stop = (session, cwd, result, minutes, durationMs) => ({
+  timestamp: new Date(2025, 2, 14, 17, minutes).toISOString(),
+  event: 'Stop',
+  action: 'Stopped',
+  session,
+  cwd,
+  title: 'Claude Code',
+  message: 'Task done',
+  result,
+  ...(durationMs !== undefined ? { durationMs } : {}),
+});
+
+describe('computeUsageStats', () => {
+  it('counts every finished task, whether or not it was notified', () => {
+    const stats = computeUsageStats([
+      stop('s1', '/work/api', 'sent', 0, 60000),
+      // The same session stopping again inside the dedupe window
+      stop('s1', '/work/api', 'skipped', 1, 30000),
+      // Sessions that joined a burst delivered as one notification
+      stop('s2', '/work/web', 'merged', 2, 90000),
+      stop('s3', '/work/web', 'merged', 2),
+      stop('s4', '/work/web', 'drop', 3),
+    ], NOW);
+
+    assert.equal(stats.totalTasks, 5);
+    assert.deepEqual(stats.days, [{ date: '2025-03-14', tasks: 5, permissionRequests: 0 }]);
+
+    const byProject = Object.fromEntries(stats.projects.map(project => [project.project, project]));
+    assert.equal(byProject.api.tasks, 2);
+    assert.equal(byProject.api.timedTasks, 2);
+    assert.equal(byProject.api.medianDurationMs, 45000);
+    assert.equal(byProject.web.tasks, 3);
+    assert.equal(byProject.web.timedTasks, 1);
+  });
+
+  it('counts permission prompts separately and ignores other events', () => {
+    const stats = computeUsageStats([
+      stop('s1', '/work/api', 'sent', 0),
+      { ...stop('s1', '/work/api', 'skipped', 1), event: 'Notification', action: 'Permission Needed' },
+      { ...stop('s1', '/work/api', 'sent', 2), event: 'PreToolUse', action: 'Running Tool' },
+    ], NOW);
+
+    assert.equal(stats.totalTasks, 1);
+    assert.equal(stats.totalPermissionRequests, 1);
+  });
+
+  it('only counts the last days when asked to', () => {
+    const old = { ...stop('s1', '/work/api', 'sent', 0), timestamp: new Date(2025, 2, 1).toISOString() };
+
+    assert.equal(computeUsageStats([old, stop('s2', '/work/api', 'sent', 0)], NOW, 7).totalTasks, 1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CHUNK_SIZE, createExcerpt, readLastAssistantMessage, readLinesReverse } from '../dist/runtime/transcript.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'transcripts');
+
+/**
+ * Build a transcript line for an assistant text message
+ */
+const assistant = (text, extra = {}) => JSON.stringify({
+  type: 'assistant',
+  isSidechain: false,
+  message: { role: 'assistant', content: [{ type: 'text', text }] },
+  ...extra,
+});
+
+describe('readLastAssistantMessage', () => {
+  it('ignores a last line that is still being written', async () => {
+    assert.equal(
+      await readLastAssistantMessage(path.join(FIXTURES, 'half-written.jsonl')),
+      'Renamed `loadConfig` to `readConfig` in 4 files.'
+    );
+  });
+
+  it('looks past tool calls to the text of the same turn', async () => {
+    assert.equal(await readLastAssistantMessage(path.join(FIXTURES, 'tool-use-last.jsonl')), 'All 27 tests pass.');
+  });
+
+  it('returns null when the last turn only used tools', async () => {
+    assert.equal(await readLastAssistantMessage(path.join(FIXTURES, 'tool-only-turn.jsonl')), null);
+  });
+
+  it('returns null when the last turn was interrupted before Claude replied', async () => {
+    assert.equal(await readLastAssistantMessage(path.join(FIXTURES, 'interrupted-turn.jsonl')), null);
+  });
+
+  it('ignores messages from subagents', async () => {
+    assert.equal(
+      await readLastAssistantMessage(path.join(FIXTURES, 'sidechain.jsonl')),
+      'The auth module looks good; I left two comments.'
+    );
+  });
+
+  it('returns null for a missing transcript', async () => {
+    assert.equal(await readLastAssistantMessage(path.join(FIXTURES, 'missing.jsonl')), null);
+  });
+});
+
+describe('readLinesReverse', () => {
+  let dir;
+  let file;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'notifier-transcript-'));
+    file = path.join(dir, 'transcript.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns lines from last to first, skipping the empty line after the final newline', () => {
+    writeFileSync(file, 'one\ntwo\nthree\n');
+
+    assert.deepEqual([...readLinesReverse(file)], ['three', 'two', 'one']);
+  });
+
+  it('reassembles a line longer than a chunk', async () => {
+    const long = 'x'.repeat(CHUNK_SIZE * 2 + 17);
+    writeFileSync(file, `${assistant('first')}\n${assistant(long)}\n`);
+
+    const lines = [...readLinesReverse(file)];
+    assert.equal(lines.length, 2);
+    assert.equal(JSON.parse(lines[0]).message.content[0].text, long);
+    assert.equal(await readLastAssistantMessage(file), long);
+  });
+
+  it('keeps multi-byte characters that straddle a chunk boundary intact', async () => {
+    // Pad the text so the chunk boundary from the end falls in the middle of the 4-byte emoji
+    const suffix = assistant('|').split('|')[1];
+    const padding = CHUNK_SIZE - '🎉漢'.length - 2 - Buffer.byteLength(`${suffix}\n`);
+    const text = `${'é'.repeat(10)}🎉漢${'a'.repeat(padding)}`;
+    const line = assistant(text);
+    const tail = '\n';
+    const emojiAt = Buffer.byteLength(line.slice(0, line.indexOf('🎉')));
+    assert.equal(Buffer.byteLength(line + tail) - CHUNK_SIZE, emojiAt + 2);
+
+    writeFileSync(file, line + tail);
+
+    assert.equal(await readLastAssistantMessage(file), text);
+  });
+
+  it('stops at maxBytes and drops the line cut off by the limit', async () => {
+    const older = assistant('older message');
+    const newer = assistant('newer message');
+    writeFileSync(file, `${older}\n${newer}\n`);
+
+    const maxBytes = Buffer.byteLength(`${newer}\n`) + 5;
+    assert.deepEqual([...readLinesReverse(file, maxBytes)], [newer]);
+    assert.equal(await readLastAssistantMessage(file, maxBytes), 'newer message');
+
+    // Only part of the newer line fits, so nothing is found
+    assert.equal(await readLastAssistantMessage(file, 10), null);
+  });
+});
+
+describe('createExcerpt', () => {
+  it('strips Markdown and code blocks and collapses whitespace', () => {
+    assert.equal(createExcerpt('## Done\n\n**Fixed** the `parser`:\n```ts\ncode()\n```\nall good'), 'Done Fixed the parser: all good');
+  });
+
+  it('cuts long text at a word boundary', () => {
+    const excerpt = createExcerpt('word '.repeat(100), 40);
+
+    assert.ok(excerpt.length <= 40);
+    assert.ok(excerpt.endsWith('word…'));
+  });
+});
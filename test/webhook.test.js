@@ -0,0 +1,93 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { WebhookChannel, SIGNATURE_HEADER, EVENT_HEADER } from '../dist/channels/webhook.js';
+import { ChannelError } from '../dist/utils/errors.js';
+import { startStubServer } from './fixtures/server.js';
+
+const MESSAGE = {
+  event: 'Stop',
+  action: 'Stopped',
+  project: 'my-app',
+  cwd: '/home/me/my-app',
+  session: 'a1b2c3d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+  title: 'Claude Task Stopped - my-app',
+  message: 'Took 4m12s: All 42 tests pass.',
+  durationMs: 252000,
+  duration: '4m12s',
+  excerpt: 'All 42 tests pass.',
+  severity: 'normal',
+  timestamp: '2025-03-14T09:26:53.000Z',
+};
+
+describe('WebhookChannel', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('POSTs the message as JSON with the event header', async () => {
+    server = await startStubServer();
+    await new WebhookChannel({ type: 'webhook', url: `${server.url}/hook` }).send(MESSAGE);
+
+    const [request] = server.requests;
+    assert.equal(request.method, 'POST');
+    assert.equal(request.path, '/hook');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(request.headers[EVENT_HEADER.toLowerCase()], 'Stop');
+    assert.equal(request.headers[SIGNATURE_HEADER.toLowerCase()], undefined);
+    assert.deepEqual(JSON.parse(request.body), MESSAGE);
+  });
+
+  it('signs the raw body with the secret', async () => {
+    server = await startStubServer();
+    await new WebhookChannel({ type: 'webhook', url: server.url, secret: 'shh' }).send(MESSAGE);
+
+    const [request] = server.requests;
+    const expected = `sha256=${createHmac('sha256', 'shh').update(request.body).digest('hex')}`;
+    assert.equal(request.headers[SIGNATURE_HEADER.toLowerCase()], expected);
+  });
+
+  it('sends custom headers without letting them replace its own', async () => {
+    server = await startStubServer();
+    await new WebhookChannel({
+      type: 'webhook',
+      url: server.url,
+      secret: 'shh',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'text/plain', [SIGNATURE_HEADER]: 'forged' },
+    }).send(MESSAGE);
+
+    const { headers } = server.requests[0];
+    assert.equal(headers.authorization, 'Bearer token');
+    assert.equal(headers['content-type'], 'application/json');
+    assert.notEqual(headers[SIGNATURE_HEADER.toLowerCase()], 'forged');
+  });
+
+  it('rejects with the status when the server does not answer 2xx', async () => {
+    server = await startStubServer((request, response) => {
+      response.statusCode = 503;
+      response.statusMessage = 'Service Unavailable';
+      response.end('down for maintenance');
+    });
+
+    await assert.rejects(new WebhookChannel({ type: 'webhook', url: `${server.url}/hook` }).send(MESSAGE), (error) => {
+      assert.ok(error instanceof ChannelError);
+      assert.equal(error.reason, 'server responded with 503 Service Unavailable');
+      assert.ok(!error.message.includes('/hook'), 'the message does not reveal the URL path');
+      return true;
+    });
+  });
+
+  it('gives up when the server does not answer within the timeout', async () => {
+    server = await startStubServer(() => {});
+    const started = Date.now();
+
+    await assert.rejects(
+      new WebhookChannel({ type: 'webhook', url: server.url, timeoutMs: 200 }).send(MESSAGE),
+      { name: 'ChannelError', reason: 'no response within 200ms' }
+    );
+    assert.ok(Date.now() - started < 2000);
+  });
+});
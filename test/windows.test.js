@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WindowsPlatform } from '../dist/platforms/windows.js';
+
+describe('WindowsPlatform.buildToastXml', () => {
+  const platform = new WindowsPlatform();
+
+  it('escapes XML special characters in the title and body', () => {
+    const xml = platform.buildToastXml(`Tom & Jerry's <app>`, `"quoted" > 'single' & <tag/>`);
+
+    assert.ok(xml.includes('<text>Tom &amp; Jerry&apos;s &lt;app&gt;</text>'));
+    assert.ok(xml.includes('<text>&quot;quoted&quot; &gt; &apos;single&apos; &amp; &lt;tag/&gt;</text>'));
+  });
+
+  it('keeps the markup well formed around escaped text', () => {
+    const xml = platform.buildToastXml('</text><text>injected', 'body');
+
+    assert.equal(xml.match(/<text>/g)?.length, 2);
+    assert.ok(xml.includes('<text>&lt;/text&gt;&lt;text&gt;injected</text>'));
+  });
+
+  it('marks urgent toasts and silences toasts without sound', () => {
+    assert.ok(platform.buildToastXml('t', 'm', false, undefined, true).startsWith(`<toast scenario='urgent'>`));
+    assert.ok(platform.buildToastXml('t', 'm').includes(`<audio silent='true'/>`));
+  });
+});
+
+describe('WindowsPlatform.createCommand', () => {
+  const platform = new WindowsPlatform();
+
+  /**
+   * Extract the single-quoted argument of LoadXml from a command
+   * @param command - PowerShell command
+   * @returns The quoted literal, including its quotes
+   */
+  function getLoadXmlArgument(command) {
+    const match = /\$xml\.LoadXml\(('(?:[^']|'')*')\)/.exec(command);
+    assert.ok(match, 'command calls LoadXml with a single-quoted literal');
+    return match[1];
+  }
+
+  it('doubles single quotes inside the LoadXml literal', () => {
+    const literal = getLoadXmlArgument(platform.createCommand({ title: 'Title', message: 'Body' }));
+
+    // Every quote inside the literal is doubled, so PowerShell sees one string
+    const inner = literal.slice(1, -1);
+    assert.equal(inner.replace(/''/g, '').includes(`'`), false);
+    assert.ok(inner.includes(`<binding template=''ToastGeneric''>`));
+  });
+
+  it('doubles typographic quotes, which PowerShell also treats as quotes', () => {
+    const literal = getLoadXmlArgument(platform.createCommand({ title: 'It’s done', message: 'Body' }));
+
+    assert.ok(literal.includes('It’’s done'));
+  });
+
+  it('escapes XML characters in the title and body before quoting', () => {
+    const literal = getLoadXmlArgument(platform.createCommand({ title: `A & B's`, message: '1 < 2 > 0' }));
+
+    assert.ok(literal.includes('<text>A &amp; B&apos;s</text>'));
+    assert.ok(literal.includes('<text>1 &lt; 2 &gt; 0</text>'));
+  });
+
+  it('removes characters that would end the outer double-quoted argument', () => {
+    const command = platform.createCommand({ title: 'say "hi" %PATH% `whoami`', message: 'Body' });
+
+    assert.ok(command.startsWith('powershell -NoProfile -Command "'));
+    assert.equal(command.slice('powershell -NoProfile -Command "'.length, -1).includes('"'), false);
+    assert.ok(command.includes('say hi PATH whoami'));
+  });
+});